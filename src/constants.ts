@@ -3,12 +3,28 @@ export const PACKAGES_URL =
 
 export const PACKAGES_FILE = 'packages.json';
 
+export const PACKAGES_CACHE_FILE = 'packages-cache.json';
+
+export const PACKAGES_HISTORY_DIR = 'packages-history';
+
+export const PACKAGES_OVERLAY_FILE = 'packages-overlay.json';
+
+export const PINS_FILE = 'pins.json';
+
+export const REGISTRIES_DIR = 'registries';
+
+export const LOCKFILE_FORMAT = '1.0';
+
 export const PACKAGE_FILE = 'package.json';
 
 export const PATH_ENV = 'SHOCKPKG_PATH';
 
+export const OFFLINE_ENV = 'SHOCKPKG_OFFLINE';
+
 export const PACKAGES_URL_ENV = 'SHOCKPKG_PACKAGES_URL';
 
+export const SIGNATURE_EXT = '.sig';
+
 export const MAIN_DIR = 'shockpkg';
 
 export const META_DIR = '.shockpkg';
@@ -16,3 +32,11 @@ export const META_DIR = '.shockpkg';
 export const TEMP_DIR = 'tmp';
 
 export const TEMP_EXT = '.tmp';
+
+export const LOCK_EXT = '.lock';
+
+export const LOCK_STALE_EXT = '.stale';
+
+export const LOCK_TIMEOUT = 10 * 60 * 1000;
+
+export const LOCK_STALE = 60 * 1000;
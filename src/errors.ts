@@ -0,0 +1,817 @@
+/* eslint-disable max-classes-per-file */
+
+import {ILockInfo} from './lock';
+
+/**
+ * Base class for errors with a stable error code.
+ */
+export class ShockpkgError extends Error {
+	/**
+	 * Error code.
+	 */
+	public readonly code: string;
+
+	/**
+	 * ShockpkgError constructor.
+	 *
+	 * @param message Error message.
+	 * @param code Error code.
+	 * @param options Error options.
+	 */
+	constructor(message: string, code: string, options: ErrorOptions = {}) {
+		super(message, options);
+
+		this.name = new.target.name;
+		this.code = code;
+	}
+}
+
+/**
+ * Packages list is not loaded.
+ */
+export class PackagesNotLoadedError extends ShockpkgError {
+	/**
+	 * PackagesNotLoadedError constructor.
+	 *
+	 * @param message Error message.
+	 */
+	constructor(message = 'Packages list not loaded') {
+		super(message, 'ERR_PACKAGES_NOT_LOADED');
+	}
+}
+
+/**
+ * Unsupported format version.
+ */
+export class FormatVersionError extends ShockpkgError {
+	/**
+	 * Format version string.
+	 */
+	public readonly format: string;
+
+	/**
+	 * FormatVersionError constructor.
+	 *
+	 * @param message Error message.
+	 * @param format Format version string.
+	 */
+	constructor(message: string, format: string) {
+		super(message, 'ERR_FORMAT_VERSION');
+
+		this.format = format;
+	}
+}
+
+/**
+ * Packages list data does not match the schema.
+ */
+export class PackagesValidationError extends ShockpkgError {
+	/**
+	 * Path of the invalid value, empty for the list itself.
+	 */
+	public readonly path: string;
+
+	/**
+	 * Reason the value is invalid.
+	 */
+	public readonly reason: string;
+
+	/**
+	 * PackagesValidationError constructor.
+	 *
+	 * @param message Error message.
+	 * @param path Path of the invalid value.
+	 * @param reason Reason the value is invalid.
+	 */
+	constructor(message: string, path: string, reason: string) {
+		super(message, 'ERR_PACKAGES_VALIDATION');
+
+		this.path = path;
+		this.reason = reason;
+	}
+}
+
+/**
+ * Packages list has duplicate packages.
+ */
+export class PackageDuplicateError extends ShockpkgError {
+	/**
+	 * Duplicate field, name or hash.
+	 */
+	public readonly field: string;
+
+	/**
+	 * Duplicate value.
+	 */
+	public readonly value: string;
+
+	/**
+	 * PackageDuplicateError constructor.
+	 *
+	 * @param message Error message.
+	 * @param field Duplicate field.
+	 * @param value Duplicate value.
+	 */
+	constructor(message: string, field: string, value: string) {
+		super(message, 'ERR_PACKAGE_DUPLICATE');
+
+		this.field = field;
+		this.value = value;
+	}
+}
+
+/**
+ * Package is not in the packages list.
+ */
+export class PackageUnknownError extends ShockpkgError {
+	/**
+	 * Package name or hash.
+	 */
+	public readonly package: string;
+
+	/**
+	 * PackageUnknownError constructor.
+	 *
+	 * @param message Error message.
+	 * @param pkg Package name or hash.
+	 */
+	constructor(message: string, pkg: string) {
+		super(message, 'ERR_PACKAGE_UNKNOWN');
+
+		this.package = pkg;
+	}
+}
+
+/**
+ * Package is not installed.
+ */
+export class PackageNotInstalledError extends ShockpkgError {
+	/**
+	 * Package name.
+	 */
+	public readonly package: string;
+
+	/**
+	 * PackageNotInstalledError constructor.
+	 *
+	 * @param message Error message.
+	 * @param pkg Package name.
+	 */
+	constructor(message: string, pkg: string) {
+		super(message, 'ERR_PACKAGE_NOT_INSTALLED');
+
+		this.package = pkg;
+	}
+}
+
+/**
+ * Pinned package is no longer available.
+ */
+export class PinUnavailableError extends ShockpkgError {
+	/**
+	 * Package name.
+	 */
+	public readonly package: string;
+
+	/**
+	 * Pinned SHA256 hash.
+	 */
+	public readonly sha256: string;
+
+	/**
+	 * PinUnavailableError constructor.
+	 *
+	 * @param message Error message.
+	 * @param pkg Package name.
+	 * @param sha256 Pinned SHA256 hash.
+	 */
+	constructor(message: string, pkg: string, sha256: string) {
+		super(message, 'ERR_PIN_UNAVAILABLE');
+
+		this.package = pkg;
+		this.sha256 = sha256;
+	}
+}
+
+/**
+ * Data hash does not match the expected hash.
+ */
+export class HashMismatchError extends ShockpkgError {
+	/**
+	 * Hash algorithm.
+	 */
+	public readonly algorithm: string;
+
+	/**
+	 * Expected hash.
+	 */
+	public readonly expected: string;
+
+	/**
+	 * Actual hash.
+	 */
+	public readonly actual: string;
+
+	/**
+	 * Package name, if any.
+	 */
+	public readonly package: string | null;
+
+	/**
+	 * HashMismatchError constructor.
+	 *
+	 * @param message Error message.
+	 * @param algorithm Hash algorithm.
+	 * @param expected Expected hash.
+	 * @param actual Actual hash.
+	 * @param pkg Package name, if any.
+	 */
+	constructor(
+		message: string,
+		algorithm: string,
+		expected: string,
+		actual: string,
+		pkg: string | null = null
+	) {
+		super(message, 'ERR_HASH_MISMATCH');
+
+		this.algorithm = algorithm;
+		this.expected = expected;
+		this.actual = actual;
+		this.package = pkg;
+	}
+}
+
+/**
+ * Data size does not match the expected size.
+ */
+export class SizeMismatchError extends ShockpkgError {
+	/**
+	 * Expected size.
+	 */
+	public readonly expected: number;
+
+	/**
+	 * Actual size.
+	 */
+	public readonly actual: number;
+
+	/**
+	 * Package name, if any.
+	 */
+	public readonly package: string | null;
+
+	/**
+	 * Request URL, if any.
+	 */
+	public readonly url: string | null;
+
+	/**
+	 * SizeMismatchError constructor.
+	 *
+	 * @param message Error message.
+	 * @param expected Expected size.
+	 * @param actual Actual size.
+	 * @param pkg Package name, if any.
+	 * @param url Request URL, if any.
+	 */
+	constructor(
+		message: string,
+		expected: number,
+		actual: number,
+		pkg: string | null = null,
+		url: string | null = null
+	) {
+		super(message, 'ERR_SIZE_MISMATCH');
+
+		this.expected = expected;
+		this.actual = actual;
+		this.package = pkg;
+		this.url = url;
+	}
+}
+
+/**
+ * Unexpected HTTP response status.
+ */
+export class StatusError extends ShockpkgError {
+	/**
+	 * Response status.
+	 */
+	public readonly status: number;
+
+	/**
+	 * Request URL.
+	 */
+	public readonly url: string;
+
+	/**
+	 * StatusError constructor.
+	 *
+	 * @param message Error message.
+	 * @param status Response status.
+	 * @param url Request URL.
+	 */
+	constructor(message: string, status: number, url: string) {
+		super(message, 'ERR_STATUS');
+
+		this.status = status;
+		this.url = url;
+	}
+}
+
+/**
+ * Request or transfer timed out.
+ * Retried by the default retry policy.
+ */
+export class TimeoutError extends ShockpkgError {
+	/**
+	 * Timeout in milliseconds.
+	 */
+	public readonly timeout: number;
+
+	/**
+	 * Request URL, if any.
+	 */
+	public readonly url: string | null;
+
+	/**
+	 * TimeoutError constructor.
+	 *
+	 * @param message Error message.
+	 * @param timeout Timeout in milliseconds.
+	 * @param url Request URL, if any.
+	 */
+	constructor(message: string, timeout: number, url: string | null = null) {
+		super(message, 'ERR_TIMEOUT');
+
+		this.timeout = timeout;
+		this.url = url;
+	}
+}
+
+/**
+ * Unsupported zipped compression method.
+ */
+export class CompressionError extends ShockpkgError {
+	/**
+	 * Compression method.
+	 */
+	public readonly method: number;
+
+	/**
+	 * CompressionError constructor.
+	 *
+	 * @param message Error message.
+	 * @param method Compression method.
+	 */
+	constructor(message: string, method: number) {
+		super(message, 'ERR_COMPRESSION_UNSUPPORTED');
+
+		this.method = method;
+	}
+}
+
+/**
+ * Packages list signature is missing or invalid.
+ */
+export class SignatureError extends ShockpkgError {
+	/**
+	 * Signature URL.
+	 */
+	public readonly url: string;
+
+	/**
+	 * SignatureError constructor.
+	 *
+	 * @param message Error message.
+	 * @param code Error code.
+	 * @param url Signature URL.
+	 */
+	constructor(
+		message: string,
+		code: 'ERR_SIGNATURE_MISSING' | 'ERR_SIGNATURE_INVALID',
+		url: string
+	) {
+		super(message, code);
+
+		this.url = url;
+	}
+}
+
+/**
+ * Package requirements contain a cycle.
+ */
+export class DependencyCycleError extends ShockpkgError {
+	/**
+	 * Package names in the cycle, starting and ending with the same name.
+	 */
+	public readonly cycle: string[];
+
+	/**
+	 * DependencyCycleError constructor.
+	 *
+	 * @param message Error message.
+	 * @param cycle Package names in the cycle.
+	 */
+	constructor(message: string, cycle: string[]) {
+		super(message, 'ERR_DEPENDENCY_CYCLE');
+
+		this.cycle = cycle;
+	}
+}
+
+/**
+ * Package is required by other installed packages.
+ */
+export class PackageRequiredError extends ShockpkgError {
+	/**
+	 * Package name.
+	 */
+	public readonly package: string;
+
+	/**
+	 * Names of the installed packages requiring the package.
+	 */
+	public readonly requiredBy: string[];
+
+	/**
+	 * PackageRequiredError constructor.
+	 *
+	 * @param message Error message.
+	 * @param pkg Package name.
+	 * @param requiredBy Names of the installed packages requiring the package.
+	 */
+	constructor(message: string, pkg: string, requiredBy: string[]) {
+		super(message, 'ERR_PACKAGE_REQUIRED');
+
+		this.package = pkg;
+		this.requiredBy = requiredBy;
+	}
+}
+
+/**
+ * Registry publishes a listed package name with a different hash.
+ */
+export class RegistryConflictError extends ShockpkgError {
+	/**
+	 * Registry name.
+	 */
+	public readonly registry: string;
+
+	/**
+	 * Package name.
+	 */
+	public readonly package: string;
+
+	/**
+	 * SHA256 hash of the package already listed.
+	 */
+	public readonly sha256: string;
+
+	/**
+	 * SHA256 hash of the package published by the registry.
+	 */
+	public readonly conflict: string;
+
+	/**
+	 * RegistryConflictError constructor.
+	 *
+	 * @param message Error message.
+	 * @param registry Registry name.
+	 * @param pkg Package name.
+	 * @param sha256 SHA256 hash of the package already listed.
+	 * @param conflict SHA256 hash of the package published by the registry.
+	 */
+	constructor(
+		message: string,
+		registry: string,
+		pkg: string,
+		sha256: string,
+		conflict: string
+	) {
+		super(message, 'ERR_REGISTRY_CONFLICT');
+
+		this.registry = registry;
+		this.package = pkg;
+		this.sha256 = sha256;
+		this.conflict = conflict;
+	}
+}
+
+/**
+ * Network access attempted in offline mode.
+ */
+export class OfflineError extends ShockpkgError {
+	/**
+	 * Package name, if any.
+	 */
+	public readonly package: string | null;
+
+	/**
+	 * OfflineError constructor.
+	 *
+	 * @param message Error message.
+	 * @param pkg Package name, if any.
+	 */
+	constructor(message: string, pkg: string | null = null) {
+		super(message, 'ERR_OFFLINE');
+
+		this.package = pkg;
+	}
+}
+
+/**
+ * Lock could not be acquired.
+ */
+export class LockError extends ShockpkgError {
+	/**
+	 * Lock file path.
+	 */
+	public readonly path: string;
+
+	/**
+	 * Lock holder info, if known.
+	 */
+	public readonly holder: Readonly<ILockInfo> | null;
+
+	/**
+	 * LockError constructor.
+	 *
+	 * @param message Error message.
+	 * @param code Error code.
+	 * @param path Lock file path.
+	 * @param holder Lock holder info, if known.
+	 */
+	constructor(
+		message: string,
+		code: 'ERR_LOCK_TIMEOUT' | 'ERR_LOCK_HELD',
+		path: string,
+		holder: Readonly<ILockInfo> | null = null
+	) {
+		super(message, code);
+
+		this.path = path;
+		this.holder = holder;
+	}
+}
+
+/**
+ * Packages history entry does not exist.
+ */
+export class HistoryUnknownError extends ShockpkgError {
+	/**
+	 * History entry ID.
+	 */
+	public readonly id: string;
+
+	/**
+	 * HistoryUnknownError constructor.
+	 *
+	 * @param message Error message.
+	 * @param id History entry ID.
+	 */
+	constructor(message: string, id: string) {
+		super(message, 'ERR_HISTORY_UNKNOWN');
+
+		this.id = id;
+	}
+}
+
+/**
+ * Hash is not a valid hash string.
+ */
+export class HashInvalidError extends ShockpkgError {
+	/**
+	 * Hash algorithm.
+	 */
+	public readonly algorithm: string;
+
+	/**
+	 * Invalid hash.
+	 */
+	public readonly hash: string;
+
+	/**
+	 * HashInvalidError constructor.
+	 *
+	 * @param message Error message.
+	 * @param algorithm Hash algorithm.
+	 * @param hash Invalid hash.
+	 */
+	constructor(message: string, algorithm: string, hash: string) {
+		super(message, 'ERR_HASH_INVALID');
+
+		this.algorithm = algorithm;
+		this.hash = hash;
+	}
+}
+
+/**
+ * Lockfile data does not match the schema.
+ */
+export class LockfileValidationError extends ShockpkgError {
+	/**
+	 * Path of the invalid value, empty for the lockfile itself.
+	 */
+	public readonly path: string;
+
+	/**
+	 * Reason the value is invalid.
+	 */
+	public readonly reason: string;
+
+	/**
+	 * LockfileValidationError constructor.
+	 *
+	 * @param message Error message.
+	 * @param path Path of the invalid value.
+	 * @param reason Reason the value is invalid.
+	 */
+	constructor(message: string, path: string, reason: string) {
+		super(message, 'ERR_LOCKFILE_VALIDATION');
+
+		this.path = path;
+		this.reason = reason;
+	}
+}
+
+/**
+ * Download range is not valid.
+ */
+export class RangeInvalidError extends ShockpkgError {
+	/**
+	 * Range start.
+	 */
+	public readonly start: number;
+
+	/**
+	 * Range size.
+	 */
+	public readonly size: number;
+
+	/**
+	 * Package name, if any.
+	 */
+	public readonly package: string | null;
+
+	/**
+	 * RangeInvalidError constructor.
+	 *
+	 * @param message Error message.
+	 * @param start Range start.
+	 * @param size Range size.
+	 * @param pkg Package name, if any.
+	 */
+	constructor(
+		message: string,
+		start: number,
+		size: number,
+		pkg: string | null = null
+	) {
+		super(message, 'ERR_RANGE_INVALID');
+
+		this.start = start;
+		this.size = size;
+		this.package = pkg;
+	}
+}
+
+/**
+ * No fetch function is available.
+ */
+export class FetchUnavailableError extends ShockpkgError {
+	/**
+	 * FetchUnavailableError constructor.
+	 *
+	 * @param message Error message.
+	 */
+	constructor(message = 'Default fetch not available') {
+		super(message, 'ERR_FETCH_UNAVAILABLE');
+	}
+}
+
+/**
+ * Request failed without a response.
+ * The cause is the underlying error, checked for retryable codes.
+ */
+export class NetworkError extends ShockpkgError {
+	/**
+	 * Request URL.
+	 */
+	public readonly url: string;
+
+	/**
+	 * NetworkError constructor.
+	 *
+	 * @param message Error message.
+	 * @param url Request URL.
+	 * @param cause Underlying error.
+	 */
+	constructor(message: string, url: string, cause: unknown) {
+		super(message, 'ERR_NETWORK', {cause});
+
+		this.url = url;
+	}
+}
+
+/**
+ * Registry name is not valid.
+ */
+export class RegistryNameError extends ShockpkgError {
+	/**
+	 * Registry name.
+	 */
+	public readonly registry: string;
+
+	/**
+	 * RegistryNameError constructor.
+	 *
+	 * @param message Error message.
+	 * @param registry Registry name.
+	 */
+	constructor(message: string, registry: string) {
+		super(message, 'ERR_REGISTRY_NAME');
+
+		this.registry = registry;
+	}
+}
+
+/**
+ * Package zipped info is missing or unexpected.
+ */
+export class ZippedInfoError extends ShockpkgError {
+	/**
+	 * Package name.
+	 */
+	public readonly package: string;
+
+	/**
+	 * Zipped info, null if missing.
+	 */
+	public readonly zipped: string | null;
+
+	/**
+	 * ZippedInfoError constructor.
+	 *
+	 * @param message Error message.
+	 * @param code Error code.
+	 * @param pkg Package name.
+	 * @param zipped Zipped info, null if missing.
+	 */
+	constructor(
+		message: string,
+		code: 'ERR_ZIPPED_MISSING' | 'ERR_ZIPPED_UNEXPECTED',
+		pkg: string,
+		zipped: string | null = null
+	) {
+		super(message, code);
+
+		this.package = pkg;
+		this.zipped = zipped;
+	}
+}
+
+/**
+ * Package is not a child package.
+ */
+export class PackageNotChildError extends ShockpkgError {
+	/**
+	 * Package name.
+	 */
+	public readonly package: string;
+
+	/**
+	 * PackageNotChildError constructor.
+	 *
+	 * @param message Error message.
+	 * @param pkg Package name.
+	 */
+	constructor(message: string, pkg: string) {
+		super(message, 'ERR_PACKAGE_NOT_CHILD');
+
+		this.package = pkg;
+	}
+}
+
+/**
+ * Package instance is not in the packages collection.
+ */
+export class PackageNotInCollectionError extends ShockpkgError {
+	/**
+	 * Package name.
+	 */
+	public readonly package: string;
+
+	/**
+	 * PackageNotInCollectionError constructor.
+	 *
+	 * @param message Error message.
+	 * @param pkg Package name.
+	 */
+	constructor(message: string, pkg: string) {
+		super(message, 'ERR_PACKAGE_NOT_IN_COLLECTION');
+
+		this.package = pkg;
+	}
+}
@@ -1,8 +1,10 @@
 export * from './meta';
 export * from './types';
 export * from './constants';
+export * from './errors';
 export * from './dispatcher';
 export * from './stream';
+export * from './lock';
 export * from './package';
 export * from './packages';
 export * from './manager';
@@ -0,0 +1,282 @@
+/* eslint-disable max-nested-callbacks */
+
+import {describe, it} from 'node:test';
+import {ok, strictEqual} from 'node:assert';
+import {hostname} from 'node:os';
+import {access, mkdir, rm, utimes, writeFile} from 'node:fs/promises';
+import {setTimeout as sleep} from 'node:timers/promises';
+
+import {LockError} from './errors';
+import {ILockInfo, ILockPolicy, Lock} from './lock';
+
+const withTemp = (i => async (func: (file: string) => unknown) => {
+	const dir = `./spec/tmp/lock/${i++}`;
+	await rm(dir, {recursive: true, force: true});
+	try {
+		await mkdir(dir, {recursive: true});
+		await func(`${dir}/file.lock`);
+	} finally {
+		await rm(dir, {recursive: true, force: true});
+	}
+})(0);
+
+const policy = {
+	timeout: 200,
+	stale: 60000
+};
+
+/**
+ * Lock that is slow to check if stale.
+ */
+class LockSlow extends Lock {
+	/**
+	 * Delay after checking in milliseconds.
+	 */
+	public readonly delay: number;
+
+	/**
+	 * LockSlow constructor.
+	 *
+	 * @param path Lock file path.
+	 * @param policy Lock policy.
+	 * @param delay Delay after checking in milliseconds.
+	 */
+	constructor(path: string, policy: Readonly<ILockPolicy>, delay: number) {
+		super(path, policy);
+
+		this.delay = delay;
+	}
+
+	/**
+	 * Check if an existing lock is stale, then wait.
+	 *
+	 * @param info Lock info.
+	 * @returns Is stale.
+	 */
+	protected async _isStale(info: Readonly<ILockInfo> | null) {
+		const r = await super._isStale(info);
+		await sleep(this.delay);
+		return r;
+	}
+}
+
+/**
+ * Check if file exists.
+ *
+ * @param file File path.
+ * @returns Does exist.
+ */
+async function exists(file: string) {
+	return access(file).then(
+		() => true,
+		() => false
+	);
+}
+
+void describe('lock', () => {
+	void describe('Lock', () => {
+		void it('acquire and release', async () => {
+			await withTemp(async file => {
+				const lock = new Lock(file, policy);
+				await lock.acquire();
+				strictEqual(lock.held, true);
+				strictEqual((await lock.holder())?.pid, process.pid);
+
+				await lock.release();
+				strictEqual(lock.held, false);
+				strictEqual(await exists(file), false);
+			});
+		});
+
+		void it('timeout', async () => {
+			await withTemp(async file => {
+				const a = new Lock(file, policy);
+				const b = new Lock(file, policy);
+				await a.acquire();
+				let error: unknown = null;
+				try {
+					await b.acquire();
+				} catch (err) {
+					error = err;
+				}
+				await a.release();
+
+				strictEqual(b.held, false);
+				ok(error instanceof LockError);
+				strictEqual(error.code, 'ERR_LOCK_TIMEOUT');
+				strictEqual(error.path, file);
+				strictEqual(error.holder?.pid, process.pid);
+				ok(error.message.startsWith(`Failed to acquire lock: ${file}`));
+			});
+		});
+
+		void it('wait', async () => {
+			await withTemp(async file => {
+				const a = new Lock(file, {...policy, timeout: 10000});
+				const b = new Lock(file, {...policy, timeout: 10000});
+				await a.acquire();
+				const acquired = b.acquire();
+				setTimeout(() => {
+					void a.release();
+				}, 100);
+				await acquired;
+
+				strictEqual(b.held, true);
+				await b.release();
+			});
+		});
+
+		void it('stale: dead process', async () => {
+			await withTemp(async file => {
+				await writeFile(
+					file,
+					JSON.stringify({
+						pid: 2 ** 22 + 1,
+						hostname: hostname(),
+						time: Date.now()
+					})
+				);
+				const lock = new Lock(file, policy);
+				await lock.acquire();
+
+				strictEqual((await lock.holder())?.pid, process.pid);
+				await lock.release();
+			});
+		});
+
+		void it('stale: replaced while checking', async () => {
+			await withTemp(async file => {
+				await writeFile(
+					file,
+					JSON.stringify({
+						pid: 2 ** 22 + 1,
+						hostname: hostname(),
+						time: Date.now()
+					})
+				);
+
+				const a = new Lock(file, policy);
+				const b = new LockSlow(file, policy, 50);
+				const acquired = b.acquire();
+				await a.acquire();
+				const error = await acquired.then(
+					() => null,
+					(err: unknown) => err
+				);
+
+				strictEqual(a.held, true);
+				strictEqual(b.held, false);
+				ok(error instanceof LockError);
+				strictEqual(error.holder?.pid, process.pid);
+				await a.release();
+			});
+		});
+
+		void it('stale: three contenders', async () => {
+			await withTemp(async file => {
+				await writeFile(
+					file,
+					JSON.stringify({
+						pid: 2 ** 22 + 1,
+						hostname: hostname(),
+						time: Date.now()
+					})
+				);
+				const locks = [
+					new LockSlow(file, policy, 0),
+					new LockSlow(file, policy, 50),
+					new LockSlow(file, policy, 25)
+				];
+				const results = await Promise.allSettled(
+					locks.map(async lock => lock.acquire())
+				);
+
+				strictEqual(locks.filter(lock => lock.held).length, 1);
+				for (const r of results) {
+					if (r.status === 'rejected') {
+						ok(r.reason instanceof LockError);
+					}
+				}
+				strictEqual(
+					results.filter(r => r.status === 'fulfilled').length,
+					1
+				);
+				strictEqual(await exists(`${file}.stale`), false);
+				for (const lock of locks) {
+					// eslint-disable-next-line no-await-in-loop
+					await lock.release();
+				}
+			});
+		});
+
+		void it('stale: guard held', async () => {
+			await withTemp(async file => {
+				const dead = {
+					pid: 2 ** 22 + 1,
+					hostname: hostname(),
+					time: Date.now()
+				};
+				await writeFile(file, JSON.stringify(dead));
+				await writeFile(`${file}.stale`, '');
+				const lock = new Lock(file, policy);
+				let error: unknown = null;
+				try {
+					await lock.acquire();
+				} catch (err) {
+					error = err;
+				}
+
+				strictEqual(lock.held, false);
+				ok(error instanceof LockError);
+				strictEqual((await lock.holder())?.pid, dead.pid);
+
+				await rm(`${file}.stale`);
+				await lock.acquire();
+				strictEqual(lock.held, true);
+				await lock.release();
+			});
+		});
+
+		void it('stale: guard left', async () => {
+			await withTemp(async file => {
+				await writeFile(
+					file,
+					JSON.stringify({
+						pid: 2 ** 22 + 1,
+						hostname: hostname(),
+						time: Date.now()
+					})
+				);
+				await writeFile(`${file}.stale`, '');
+				const old = new Date(Date.now() - 2 * policy.stale);
+				await utimes(`${file}.stale`, old, old);
+				const lock = new Lock(file, {...policy, timeout: 1000});
+				await lock.acquire();
+
+				strictEqual(lock.held, true);
+				strictEqual(await exists(`${file}.stale`), false);
+				await lock.release();
+			});
+		});
+
+		void it('stale: old', async () => {
+			await withTemp(async file => {
+				await writeFile(
+					file,
+					JSON.stringify({
+						pid: process.pid,
+						hostname: 'other',
+						time: 0
+					})
+				);
+				const old = new Date(Date.now() - 2 * policy.stale);
+				await utimes(file, old, old);
+				const lock = new Lock(file, policy);
+				await lock.acquire();
+
+				strictEqual(lock.held, true);
+				await lock.release();
+			});
+		});
+	});
+});
@@ -0,0 +1,288 @@
+import {hostname as osHostname} from 'node:os';
+import {dirname} from 'node:path';
+import {lstat, mkdir, readFile, rm, utimes, writeFile} from 'node:fs/promises';
+import {setTimeout as sleep} from 'node:timers/promises';
+
+import {LOCK_STALE_EXT} from './constants';
+import {LockError} from './errors';
+
+export interface ILockPolicy {
+	/**
+	 * Time to wait for the lock in milliseconds.
+	 */
+	timeout: number;
+
+	/**
+	 * Time without a refresh after which a lock is stale in milliseconds.
+	 */
+	stale: number;
+}
+
+export interface ILockInfo {
+	/**
+	 * Process ID of the holder.
+	 */
+	pid: number;
+
+	/**
+	 * Host name of the holder.
+	 */
+	hostname: string;
+
+	/**
+	 * Time the lock was acquired.
+	 */
+	time: number;
+}
+
+/**
+ * Advisory lock file.
+ */
+export class Lock {
+	/**
+	 * Lock file path.
+	 */
+	public readonly path: string;
+
+	/**
+	 * Lock policy.
+	 */
+	public readonly policy: Readonly<ILockPolicy>;
+
+	/**
+	 * Interval to check the lock while waiting in milliseconds.
+	 */
+	public interval = 100;
+
+	/**
+	 * Lock is held.
+	 */
+	protected _held = false;
+
+	/**
+	 * Refresh timer.
+	 */
+	protected _timer: ReturnType<typeof setInterval> | null = null;
+
+	/**
+	 * Lock constructor.
+	 *
+	 * @param path Lock file path.
+	 * @param policy Lock policy.
+	 */
+	constructor(path: string, policy: Readonly<ILockPolicy>) {
+		this.path = path;
+		this.policy = policy;
+	}
+
+	/**
+	 * Get if lock is held.
+	 *
+	 * @returns Is held.
+	 */
+	public get held() {
+		return this._held;
+	}
+
+	/**
+	 * Acquire the lock, waiting for another holder to release it.
+	 * Stale locks from dead processes or without refresh are replaced.
+	 *
+	 * @param signal Abort signal.
+	 */
+	public async acquire(signal: AbortSignal | null = null) {
+		if (this._held) {
+			throw new LockError(
+				`Lock already held: ${this.path}`,
+				'ERR_LOCK_HELD',
+				this.path
+			);
+		}
+
+		const {path, interval} = this;
+		const {timeout} = this.policy;
+		const end = Date.now() + timeout;
+		await mkdir(dirname(path), {recursive: true});
+		for (;;) {
+			signal?.throwIfAborted();
+
+			const info: ILockInfo = {
+				pid: process.pid,
+				hostname: osHostname(),
+				time: Date.now()
+			};
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await writeFile(path, JSON.stringify(info, null, '\t'), {
+					flag: 'wx'
+				});
+				break;
+			} catch (err) {
+				if ((err as {code?: string}).code !== 'EEXIST') {
+					throw err;
+				}
+			}
+
+			// eslint-disable-next-line no-await-in-loop
+			const holder = await this.holder();
+			if (
+				// eslint-disable-next-line no-await-in-loop
+				(await this._isStale(holder)) &&
+				// eslint-disable-next-line no-await-in-loop
+				(await this._removeStale(holder))
+			) {
+				continue;
+			}
+
+			if (Date.now() >= end) {
+				const by = holder
+					? `: held by ${holder.pid} on ${holder.hostname}`
+					: '';
+				throw new LockError(
+					`Failed to acquire lock: ${path}${by}`,
+					'ERR_LOCK_TIMEOUT',
+					path,
+					holder
+				);
+			}
+
+			// eslint-disable-next-line no-await-in-loop
+			await sleep(interval, null, signal ? {signal} : {}).catch(err => {
+				signal?.throwIfAborted();
+				throw err;
+			});
+		}
+
+		this._held = true;
+		this._refreshStart();
+	}
+
+	/**
+	 * Release the lock if held.
+	 */
+	public async release() {
+		if (!this._held) {
+			return;
+		}
+		this._refreshStop();
+		this._held = false;
+		await rm(this.path, {force: true});
+	}
+
+	/**
+	 * Read the lock holder info.
+	 *
+	 * @returns Lock info or null if not locked or unreadable.
+	 */
+	public async holder() {
+		return readFile(this.path, 'utf8')
+			.then(s => JSON.parse(s) as ILockInfo)
+			.catch(() => null);
+	}
+
+	/**
+	 * Remove a stale lock, unless another waiter replaced it already.
+	 * Only one waiter at a time takes over, holding a guard file while it
+	 * checks the lock is still the same stale lock and removes it.
+	 * A guard left by a dead waiter is removed once stale.
+	 *
+	 * @param info Lock info of the stale lock.
+	 * @returns False if another waiter holds the guard.
+	 */
+	protected async _removeStale(info: Readonly<ILockInfo> | null) {
+		const {path} = this;
+		const guard = `${path}${LOCK_STALE_EXT}`;
+		try {
+			await writeFile(guard, `${process.pid}`, {flag: 'wx'});
+		} catch (err) {
+			if ((err as {code?: string}).code !== 'EEXIST') {
+				throw err;
+			}
+			const stat = await lstat(guard).catch(() => null);
+			if (stat && Date.now() - stat.mtimeMs > this.policy.stale) {
+				await rm(guard, {force: true});
+			}
+			return false;
+		}
+		try {
+			const holder = await this.holder();
+			const same =
+				holder === info ||
+				!!(
+					holder &&
+					info &&
+					holder.pid === info.pid &&
+					holder.hostname === info.hostname &&
+					holder.time === info.time
+				);
+			if (same && (await this._isStale(holder))) {
+				await rm(path, {force: true});
+			}
+		} finally {
+			await rm(guard, {force: true});
+		}
+		return true;
+	}
+
+	/**
+	 * Check if an existing lock is stale.
+	 *
+	 * @param info Lock info.
+	 * @returns Is stale.
+	 */
+	protected async _isStale(info: Readonly<ILockInfo> | null) {
+		const stat = await lstat(this.path).catch(() => null);
+		if (!stat) {
+			return true;
+		}
+		if (Date.now() - stat.mtimeMs > this.policy.stale) {
+			return true;
+		}
+		return !!(
+			info &&
+			info.hostname === osHostname() &&
+			!this._isAlive(info.pid)
+		);
+	}
+
+	/**
+	 * Check if a process is alive.
+	 *
+	 * @param pid Process ID.
+	 * @returns Is alive.
+	 */
+	protected _isAlive(pid: number) {
+		try {
+			process.kill(pid, 0);
+		} catch (err) {
+			return (err as {code?: string}).code === 'EPERM';
+		}
+		return true;
+	}
+
+	/**
+	 * Start refreshing the lock file modification time.
+	 */
+	protected _refreshStart() {
+		const {path} = this;
+		this._timer = setInterval(
+			() => {
+				const now = new Date();
+				utimes(path, now, now).catch(() => null);
+			},
+			Math.max(this.policy.stale / 3, 1)
+		);
+		this._timer.unref();
+	}
+
+	/**
+	 * Stop refreshing the lock file modification time.
+	 */
+	protected _refreshStop() {
+		const {_timer} = this;
+		if (_timer) {
+			clearInterval(_timer);
+			this._timer = null;
+		}
+	}
+}
@@ -4,14 +4,39 @@
 import {describe, it} from 'node:test';
 import {deepStrictEqual, ok, strictEqual} from 'node:assert';
 import {createReadStream} from 'node:fs';
-import {lstat, mkdir, rm, writeFile} from 'node:fs/promises';
+import {lstat, mkdir, readdir, readFile, rm, writeFile} from 'node:fs/promises';
+import {Readable} from 'node:stream';
 import {pipeline} from 'node:stream/promises';
-import {createHash} from 'node:crypto';
+import {createHash, generateKeyPairSync, KeyObject, sign} from 'node:crypto';
 import {Server} from 'node:http';
+import {resolve as pathResolve} from 'node:path';
+import {pathToFileURL} from 'node:url';
 
 import express from 'express';
 
-import {IPackageDownloadProgress, Manager} from './manager';
+import {
+	IPackageDownloadProgress,
+	IPackageInstallPlan,
+	IPackageSearchQuery,
+	IRequestRetry,
+	Manager
+} from './manager';
+import {IFetch} from './types';
+import {OFFLINE_ENV} from './constants';
+import {
+	DependencyCycleError,
+	HashInvalidError,
+	HashMismatchError,
+	HistoryUnknownError,
+	LockfileValidationError,
+	NetworkError,
+	OfflineError,
+	PackageNotInstalledError,
+	PackageRequiredError,
+	RegistryConflictError,
+	SizeMismatchError,
+	TimeoutError
+} from './errors';
 
 const withTemp = (i => async (func: (path: string) => Promise<unknown>) => {
 	const path = `./spec/tmp/manager/${i++}`;
@@ -265,16 +290,27 @@ export async function createServer() {
  */
 async function createServerManager(packages: string) {
 	const server = await createServer();
-	server.app.get('/packages.json', (req, res) => {
+	const packagesJson = (req: express.Request, res: express.Response) => {
 		const reqHost = req.headers.host || server.host;
 		const data = JSON.parse(packages) as {packages: {source: string}[]};
 		for (const pkg of data.packages || []) {
 			pkg.source = `${server.protocol}//${reqHost}${pkg.source}`;
 		}
+		const body = JSON.stringify(data, null, '\t');
+		const etag = `"${sha256Buffer(Buffer.from(body))}"`;
+		res.setHeader('ETag', etag);
+		if (req.headers['if-none-match'] === etag) {
+			res.status(304).end();
+			return;
+		}
 		res.setHeader('Content-Type', 'application/json; charset=utf-8');
-		res.end(JSON.stringify(data, null, '\t'));
-	});
-	server.app.use('/packages', express.static('spec/fixtures/packages'));
+		res.end(body);
+	};
+	const packagesStatic = express.static('spec/fixtures/packages');
+	server.app.get('/packages.json', packagesJson);
+	server.app.use('/packages', packagesStatic);
+	server.app.get('/mirror/:host/packages.json', packagesJson);
+	server.app.use('/mirror/:host/packages', packagesStatic);
 	return server;
 }
 
@@ -546,6 +582,450 @@ void describe('manager', () => {
 				)
 			);
 
+			void it(
+				'aborted',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					const controller = new AbortController();
+					controller.abort();
+					const error = (await promiseError(
+						manager.update(controller.signal)
+					)) as Error;
+
+					strictEqual(error.name, 'AbortError');
+					strictEqual(manager.loaded, false);
+				})
+			);
+
+			void describe('conditional', () => {
+				/**
+				 * Log fetch requests If-None-Match header and response status.
+				 *
+				 * @param manager Manager instance.
+				 * @returns List of requests.
+				 */
+				const fetchLog = (manager: Manager) => {
+					const fetch = manager.fetch as IFetch;
+					const requests: [string | null, number][] = [];
+					manager.fetch = async (url, init) => {
+						const res = await fetch(url, init);
+						requests.push([
+							init?.headers?.['If-None-Match'] ?? null,
+							res.status
+						]);
+						return res;
+					};
+					return requests;
+				};
+
+				void it(
+					'not modified',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const requests = fetchLog(manager);
+
+						const a = await manager.update();
+						const b = await manager.update();
+
+						const {etag} = JSON.parse(
+							await readFile(
+								manager.pathToMeta(manager.packagesCacheFile),
+								'utf8'
+							)
+						) as {etag: string};
+
+						ok(a.added.length);
+						deepStrictEqual(b, {
+							updated: [],
+							added: [],
+							removed: []
+						});
+						deepStrictEqual(requests, [
+							[null, 200],
+							[etag, 304]
+						]);
+						strictEqual(manager.loaded, true);
+					})
+				);
+
+				void it(
+					'list missing',
+					managerTest(
+						JSON.stringify(packages),
+						async (ManagerTest, path) => {
+							const manager1 = new ManagerTest(path);
+							await manager1.update();
+							await rm(
+								manager1.pathToMeta(manager1.packagesFile)
+							);
+
+							const manager2 = new ManagerTest(path);
+							const requests = fetchLog(manager2);
+							const report = await manager2.update();
+
+							ok(report.added.length);
+							deepStrictEqual(requests, [[null, 200]]);
+						}
+					)
+				);
+
+				void it(
+					'last modified',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const fetch = manager.fetch as IFetch;
+						const modified = 'Wed, 21 Oct 2015 07:28:00 GMT';
+						const requests: (string | null)[] = [];
+						manager.fetch = async (url, init) => {
+							const since =
+								init?.headers?.['If-Modified-Since'] ?? null;
+							requests.push(since);
+							const res = await fetch(url, init);
+							return {
+								status: since === modified ? 304 : res.status,
+								headers: new Headers([
+									['Last-Modified', modified]
+								]),
+								body: res.body,
+								text: async () => res.text()
+							};
+						};
+
+						await manager.update();
+						const report = await manager.update();
+
+						deepStrictEqual(requests, [null, modified]);
+						strictEqual(report.added.length, 0);
+					})
+				);
+			});
+
+			void describe('signature', () => {
+				const {publicKey, privateKey} = generateKeyPairSync('ed25519');
+				const other = generateKeyPairSync('ed25519');
+
+				/**
+				 * Serve signatures signed with a private key.
+				 *
+				 * @param manager Manager instance.
+				 * @param key Private key or null for no signatures.
+				 */
+				const fetchSigned = (
+					manager: Manager,
+					key: KeyObject | null
+				) => {
+					const fetch = manager.fetch as IFetch;
+					manager.fetch = async (url, init) => {
+						if (!url.endsWith('.sig')) {
+							return fetch(url, init);
+						}
+						const res = await fetch(url.slice(0, -4), init);
+						const data = Buffer.from(await res.text());
+						const sig = key
+							? sign(null, data, key).toString('base64')
+							: '';
+						return {
+							status: key ? 200 : 404,
+							headers: new Headers(),
+							body: Readable.from([Buffer.from(sig)]),
+							text: async () => Promise.resolve(sig)
+						};
+					};
+					manager.signature = {
+						keys: [
+							publicKey.export({
+								type: 'spki',
+								format: 'pem'
+							}) as string
+						],
+						required: true
+					};
+				};
+
+				void it(
+					'valid',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						fetchSigned(manager, privateKey);
+						await manager.update();
+						strictEqual(manager.loaded, true);
+					})
+				);
+
+				void it(
+					'invalid',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						fetchSigned(manager, other.privateKey);
+						const error = (await promiseError(
+							manager.update()
+						)) as Error;
+						const sigUrl = `${manager.packagesUrl}.sig`;
+						strictEqual(
+							error.message,
+							`Invalid packages list signature: ${sigUrl}`
+						);
+						strictEqual(manager.loaded, false);
+					})
+				);
+
+				void it(
+					'missing',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						fetchSigned(manager, null);
+						const error = (await promiseError(
+							manager.update()
+						)) as Error;
+						const sigUrl = `${manager.packagesUrl}.sig`;
+						strictEqual(
+							error.message,
+							`Missing packages list signature: ${sigUrl}`
+						);
+
+						manager.signature.required = false;
+						await manager.update();
+						strictEqual(manager.loaded, true);
+					})
+				);
+			});
+
+			void describe('registries', () => {
+				const registryUrl = 'http://registry.example.com/packages.json';
+
+				/**
+				 * Serve a registry packages list.
+				 *
+				 * @param manager Manager instance.
+				 * @param list Registry packages list.
+				 */
+				const fetchRegistry = (manager: Manager, list: unknown) => {
+					const fetch = manager.fetch as IFetch;
+					manager.fetch = async (url, init) => {
+						if (url !== registryUrl) {
+							return fetch(url, init);
+						}
+						const body = JSON.stringify(list);
+						return Promise.resolve({
+							status: 200,
+							headers: new Headers(),
+							body: Readable.from([Buffer.from(body)]),
+							text: async () => Promise.resolve(body)
+						});
+					};
+					manager.registries = [{name: 'internal', url: registryUrl}];
+				};
+
+				void it(
+					'merged',
+					managerTest(
+						JSON.stringify(packages),
+						async (Manager, path) => {
+							const manager = new Manager(path);
+							fetchRegistry(manager, {
+								format: '2.0',
+								packages: [
+									packageObsoleteA,
+									{
+										...packageSingle,
+										source: 'http://example.com/a'
+									}
+								]
+							});
+
+							const report = await manager.update();
+							deepStrictEqual(
+								report.added.map(p => p.name),
+								[
+									packageSingle.name,
+									packageMulti.name,
+									packageMultiA.name,
+									packageMultiB.name,
+									packageNested2.name,
+									packageNested1.name,
+									packageNested.name,
+									packageObsoleteA.name
+								]
+							);
+
+							const single = await manager.packageByName(
+								packageSingle.name
+							);
+							ok(single);
+							ok(single.source.startsWith('http://127.0.0.1:'));
+
+							// Stored separately, read on load.
+							const manager2 = new Manager(path);
+							manager2.registries = manager.registries;
+							ok(
+								await manager2.packageByName(
+									packageObsoleteA.name
+								)
+							);
+							strictEqual(
+								await manager.isObsolete(packageObsoleteA.name),
+								false
+							);
+							const registry = JSON.parse(
+								await readFile(
+									manager.pathToMeta(
+										manager.registriesDir,
+										'internal.json'
+									),
+									'utf8'
+								)
+							) as {packages: unknown[]};
+							strictEqual(registry.packages.length, 2);
+						}
+					)
+				);
+
+				void it(
+					'conflict',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						fetchRegistry(manager, {
+							format: '2.0',
+							packages: [
+								{...packageObsoleteA, name: packageSingle.name}
+							]
+						});
+
+						const error = await promiseError(manager.update());
+						ok(error instanceof RegistryConflictError);
+						strictEqual(error.registry, 'internal');
+						strictEqual(error.package, packageSingle.name);
+						strictEqual(error.sha256, packageSingle.sha256);
+						strictEqual(error.conflict, packageObsoleteA.sha256);
+						strictEqual(manager.loaded, false);
+					})
+				);
+			});
+
+			void describe('retry', () => {
+				const fetchStatuses = (
+					manager: Manager,
+					statuses: number[]
+				) => {
+					const fetch = manager.fetch as IFetch;
+					const requests: string[] = [];
+					manager.fetch = async (url, init) => {
+						requests.push(url);
+						const res = await fetch(url, init);
+						const status = statuses.shift() ?? res.status;
+						return {
+							status,
+							headers: res.headers,
+							body: res.body,
+							text: async () => res.text()
+						};
+					};
+					manager.retry = {...manager.retry, delay: 0};
+					return requests;
+				};
+
+				void it(
+					'retryable',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const requests = fetchStatuses(manager, [503, 502]);
+						const events: IRequestRetry[] = [];
+						manager.eventRequestRetry.on(event => {
+							events.push(event);
+						});
+
+						await manager.update();
+
+						strictEqual(manager.loaded, true);
+						strictEqual(requests.length, 3);
+						deepStrictEqual(
+							events.map(e => [e.attempt, e.attempts, e.status]),
+							[
+								[2, 3, 503],
+								[3, 3, 502]
+							]
+						);
+					})
+				);
+
+				void it(
+					'attempts',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const requests = fetchStatuses(
+							manager,
+							[503, 503, 503]
+						);
+
+						const error = (await promiseError(
+							manager.update()
+						)) as Error;
+
+						strictEqual(requests.length, 3);
+						ok(
+							error.message.startsWith(
+								'Invalid response status: 503'
+							)
+						);
+					})
+				);
+
+				void it(
+					'not retryable',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const requests = fetchStatuses(manager, [404]);
+
+						const error = (await promiseError(
+							manager.update()
+						)) as Error;
+
+						strictEqual(requests.length, 1);
+						ok(
+							error.message.startsWith(
+								'Invalid response status: 404'
+							)
+						);
+					})
+				);
+
+				void it(
+					'error code',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const fetch = manager.fetch as IFetch;
+						let failures = 1;
+						manager.fetch = async (url, init) => {
+							if (failures-- > 0) {
+								throw new Error('fetch failed', {
+									cause: Object.assign(new Error('reset'), {
+										code: 'ECONNRESET'
+									})
+								});
+							}
+							return fetch(url, init);
+						};
+						manager.retry = {...manager.retry, delay: 0};
+
+						await manager.update();
+
+						strictEqual(manager.loaded, true);
+					})
+				);
+
+				void it(
+					'network error',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const cause = Object.assign(new Error('refused'), {
+							code: 'ECONNREFUSED'
+						});
+						const failure = new Error('fetch failed', {cause});
+						manager.fetch = async () => Promise.reject(failure);
+						manager.retry = {...manager.retry, attempts: 1};
+
+						const error = await promiseError(manager.update());
+
+						ok(error instanceof NetworkError);
+						strictEqual(error.code, 'ERR_NETWORK');
+						strictEqual(error.url, manager.packagesUrl);
+						strictEqual(error.cause, failure);
+						strictEqual(
+							error.message,
+							'fetch failed (Error ECONNREFUSED)'
+						);
+					})
+				);
+			});
+
 			void describe('return', () => {
 				const writePackage = async (manager: Manager, obj: unknown) => {
 					const jsonFile = manager.pathToMeta(manager.packagesFile);
@@ -654,6 +1134,138 @@ void describe('manager', () => {
 					})
 				);
 
+				void it(
+					'updated: changes',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const mod = packagesCopy();
+						const [pkg] = mod.packages;
+						pkg.sha256 = strReverse(pkg.sha256);
+						pkg.md5 = strReverse(pkg.md5);
+						await writePackage(manager, mod);
+
+						const report = await manager.update();
+
+						deepStrictEqual(
+							report.updated.map(p => [p.changes, p.moved]),
+							[
+								[
+									[
+										{
+											field: 'sha256',
+											before: pkg.sha256,
+											after: packageSingle.sha256
+										},
+										{
+											field: 'md5',
+											before: pkg.md5,
+											after: packageSingle.md5
+										},
+										{
+											field: 'source',
+											before: pkg.source,
+											after: new URL(
+												packageSingle.source,
+												manager.packagesUrl
+											).href
+										}
+									],
+									false
+								]
+							]
+						);
+					})
+				);
+
+				void it(
+					'updated: moved',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const mod = packagesCopy();
+						const [single, multi] = mod.packages as {
+							packages?: (typeof packageMultiA)[];
+						}[];
+						const [a, b] =
+							multi.packages as (typeof packageMultiA)[];
+						a.sha256 = strReverse(a.sha256);
+						single.packages = [a];
+						multi.packages = [b];
+						await writePackage(manager, mod);
+
+						const report = await manager.update();
+
+						deepStrictEqual(
+							report.updated.map(p => [
+								p.name,
+								p.changes,
+								p.moved
+							]),
+							[
+								[
+									packageMultiA.name,
+									[
+										{
+											field: 'sha256',
+											before: a.sha256,
+											after: packageMultiA.sha256
+										},
+										{
+											field: 'parent',
+											before: packageSingle.name,
+											after: packageMulti.name
+										}
+									],
+									true
+								]
+							]
+						);
+					})
+				);
+
+				void it(
+					'updated: moved same hash',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const mod = packagesCopy();
+						const [single, multi] = mod.packages as {
+							packages?: (typeof packageMultiA)[];
+						}[];
+						const [a, b] =
+							multi.packages as (typeof packageMultiA)[];
+						a.zipped = '0-107-270560';
+						single.packages = [a];
+						multi.packages = [b];
+						await writePackage(manager, mod);
+
+						const report = await manager.update();
+
+						deepStrictEqual(
+							report.updated.map(p => [
+								p.name,
+								p.changes,
+								p.moved
+							]),
+							[
+								[
+									packageMultiA.name,
+									[
+										{
+											field: 'zipped',
+											before: a.zipped,
+											after: packageMultiA.zipped
+										},
+										{
+											field: 'parent',
+											before: packageSingle.name,
+											after: packageMulti.name
+										}
+									],
+									true
+								]
+							]
+						);
+						deepStrictEqual(report.added, []);
+						deepStrictEqual(report.removed, []);
+					})
+				);
+
 				void it(
 					'ignored: source',
 					managerTestOne(JSON.stringify(packages), async manager => {
@@ -690,116 +1302,729 @@ void describe('manager', () => {
 			});
 		});
 
-		void describe('packageItter', () => {
+		void describe('history', () => {
+			/**
+			 * Write a modified packages list with obsolete packages.
+			 *
+			 * @param manager Manager instance.
+			 */
+			const writeObsolete = async (manager: Manager) => {
+				const mod = packagesCopy();
+				mod.packages.push(packageObsoleteA, packageObsoleteB);
+				await mkdir(manager.pathToMeta(), {recursive: true});
+				await writeFile(
+					manager.pathToMeta(manager.packagesFile),
+					JSON.stringify(mod, null, '\t')
+				);
+			};
+
 			void it(
-				'return',
+				'empty',
 				managerTestOne(JSON.stringify(packages), async manager => {
+					deepStrictEqual(await manager.listHistory(), []);
 					await manager.update();
-
-					const expected = [
-						packageSingle,
-						packageMulti,
-						packageMultiA,
-						packageMultiB,
-						packageNested2,
-						packageNested1,
-						packageNested
-					].map(p => p.name);
-
-					const listed = [];
-					for await (const {name} of manager.packages()) {
-						listed.push(name);
-					}
-					deepStrictEqual(listed, expected);
+					deepStrictEqual(await manager.listHistory(), []);
 				})
 			);
-		});
 
-		void describe('packageByName', () => {
 			void it(
-				'return',
+				'rollback',
 				managerTestOne(JSON.stringify(packages), async manager => {
+					await writeObsolete(manager);
 					await manager.update();
 
-					strictEqual(
-						await manager.packageByName(packageObsoleteA.name),
-						null
+					const history = await manager.listHistory();
+					strictEqual(history.length, 1);
+					ok(history[0].time <= Date.now());
+
+					const report = await manager.rollbackPackages(
+						history[0].id
 					);
+					deepStrictEqual(report.updated, []);
+					deepStrictEqual(
+						report.added.map(p => p.name),
+						[packageObsoleteA.name, packageObsoleteB.name]
+					);
+					deepStrictEqual(report.removed, []);
+					ok(await manager.packageByName(packageObsoleteA.name));
 
-					ok(await manager.packageByName(packageSingle.name));
+					const after = await manager.listHistory();
+					strictEqual(after.length, 2);
+					strictEqual(after[1].id, history[0].id);
 				})
 			);
-		});
 
-		void describe('packageBySha256', () => {
 			void it(
-				'return',
+				'limit',
 				managerTestOne(JSON.stringify(packages), async manager => {
+					manager.history = 1;
+					await writeObsolete(manager);
 					await manager.update();
 
-					strictEqual(
-						await manager.packageBySha256(
-							packageSingleMetaBad.sha256
-						),
-						null
-					);
+					const [{id}] = await manager.listHistory();
+					await manager.rollbackPackages(id);
 
-					ok(await manager.packageBySha256(packageSingle.sha256));
+					const after = await manager.listHistory();
+					strictEqual(after.length, 1);
+					ok(after[0].id !== id);
 				})
 			);
-		});
 
-		void describe('packageBySha1', () => {
 			void it(
-				'return',
+				'unknown',
 				managerTestOne(JSON.stringify(packages), async manager => {
 					await manager.update();
 
+					const error = await promiseError(
+						manager.rollbackPackages('0-00')
+					);
+					ok(error instanceof HistoryUnknownError);
+					strictEqual(error.id, '0-00');
 					strictEqual(
-						await manager.packageBySha1(packageSingleMetaBad.sha1),
-						null
+						error.message,
+						'Unknown packages history: 0-00'
 					);
-
-					ok(await manager.packageBySha1(packageSingle.sha1));
 				})
 			);
 		});
 
-		void describe('packageByMd5', () => {
+		void describe('pins', () => {
 			void it(
-				'return',
+				'pin unpin',
 				managerTestOne(JSON.stringify(packages), async manager => {
 					await manager.update();
 
+					deepStrictEqual(await manager.listPins(), []);
 					strictEqual(
-						await manager.packageByMd5(packageSingleMetaBad.md5),
-						null
+						await manager.pin(packageSingle.name),
+						packageSingle.sha256
 					);
+					deepStrictEqual(await manager.listPins(), [
+						{
+							name: packageSingle.name,
+							sha256: packageSingle.sha256
+						}
+					]);
+					strictEqual(await manager.unpin(packageSingle.name), true);
+					strictEqual(await manager.unpin(packageSingle.name), false);
+					deepStrictEqual(await manager.listPins(), []);
 
-					ok(await manager.packageByMd5(packageSingle.md5));
+					const error = await promiseError(
+						manager.pin(packageSingle.name, 'bad')
+					);
+					ok(error instanceof HashInvalidError);
+					strictEqual(error.hash, 'bad');
+					strictEqual(error.message, 'Invalid sha256 hash: bad');
 				})
 			);
-		});
 
-		void describe('packageByUnique', () => {
 			void it(
-				'return',
+				'outdated',
 				managerTestOne(JSON.stringify(packages), async manager => {
 					await manager.update();
 
-					strictEqual(
-						await manager.packageByUnique(packageObsoleteA.name),
-						null
+					await managerWritePackageMeta(
+						manager,
+						packageSingleMetaBad.name,
+						packageSingleMetaBad
+					);
+					deepStrictEqual(
+						(await manager.outdated()).map(p => p.name),
+						[packageSingle.name]
 					);
+
 					strictEqual(
-						await manager.packageByUnique(
-							packageSingleMetaBad.sha256
-						),
-						null
+						await manager.pin(packageSingle.name),
+						packageSingleMetaBad.sha256
 					);
+					deepStrictEqual(await manager.outdated(), []);
+					deepStrictEqual(await manager.upgrade(), []);
+
+					const error = (await promiseError(
+						manager.install(packageSingle.name)
+					)) as Error;
+					const {name, sha256} = packageSingleMetaBad;
 					strictEqual(
-						await manager.packageByUnique(
-							packageSingleMetaBad.sha1
+						error.message,
+						`Pinned package not available: ${name}: ${sha256}`
+					);
+				})
+			);
+
+			void it(
+				'install from history',
+				managerTestOne(
+					JSON.stringify({
+						...packages,
+						packages: [
+							packageSingleMetaBad,
+							packageMulti,
+							packageNested2
+						]
+					}),
+					async manager => {
+						// Previous list with the good version.
+						const mod = packagesCopy();
+						for (const pkg of mod.packages) {
+							pkg.source = new URL(
+								pkg.source,
+								manager.packagesUrl
+							).href;
+						}
+						await mkdir(manager.pathToMeta(), {recursive: true});
+						await writeFile(
+							manager.pathToMeta(manager.packagesFile),
+							JSON.stringify(mod, null, '\t')
+						);
+						await manager.update();
+
+						await manager.pin(
+							packageSingle.name,
+							packageSingle.sha256
+						);
+						const plan = await manager.plan(packageSingle.name);
+						strictEqual(plan.package.sha256, packageSingle.sha256);
+						deepStrictEqual(
+							[plan.method, plan.transfer],
+							['full', packageSingle.size]
+						);
+
+						const installed = await manager.install(
+							packageSingle.name
+						);
+
+						deepStrictEqual(
+							installed.map(p => p.sha256),
+							[packageSingle.sha256]
+						);
+						strictEqual(
+							(await manager.receipt(packageSingle.name)).sha256,
+							packageSingle.sha256
+						);
+						deepStrictEqual(await manager.outdated(), []);
+
+						await manager.unpin(packageSingle.name);
+						deepStrictEqual(
+							(await manager.outdated()).map(p => p.name),
+							[packageSingle.name]
+						);
+					}
+				)
+			);
+		});
+
+		void describe('lockfile', () => {
+			void it(
+				'write',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					const file = manager.pathTo('lock.json');
+					const lockfile = await manager.lock(
+						[packageMultiA.name, packageSingle.name],
+						file
+					);
+
+					deepStrictEqual(
+						JSON.parse(await readFile(file, 'utf8')),
+						lockfile
+					);
+					deepStrictEqual(lockfile, {
+						format: '1.0',
+						packages: [
+							{
+								...packageMultiA,
+								parents: [
+									{
+										...packageMultiMeta,
+										source: new URL(
+											packageMulti.source,
+											manager.packagesUrl
+										).href
+									}
+								]
+							},
+							{
+								...packageSingle,
+								source: new URL(
+									packageSingle.source,
+									manager.packagesUrl
+								).href,
+								parents: []
+							}
+						]
+					});
+				})
+			);
+
+			void it(
+				'install unlisted',
+				managerTest(
+					JSON.stringify(packages),
+					async (ManagerTest, path) => {
+						const manager1 = new ManagerTest(path);
+						await manager1.update();
+
+						const file = manager1.pathTo('lock.json');
+						await manager1.lock(
+							[
+								packageMultiA.name,
+								packageMultiB.name,
+								packageNested.name
+							],
+							file
+						);
+
+						// List without the locked packages.
+						const mod = packagesCopy();
+						mod.packages = mod.packages.filter(
+							p => p.name === packageSingle.name
+						);
+						await writeFile(
+							manager1.pathToMeta(manager1.packagesFile),
+							JSON.stringify(mod, null, '\t')
+						);
+
+						const manager2 = new ManagerTest(path);
+						await manager2.load();
+						const list = await manager2.installFromLock(file);
+
+						deepStrictEqual(
+							list.map(p => [p.package.name, p.error]),
+							[
+								[packageMultiA.name, null],
+								[packageMultiB.name, null],
+								[packageNested.name, null]
+							]
+						);
+						for (const {name, sha256} of [
+							packageMultiA,
+							packageMultiB,
+							packageNested
+						]) {
+							strictEqual(
+								// eslint-disable-next-line no-await-in-loop
+								(await manager2.receipt(name)).sha256,
+								sha256
+							);
+						}
+					}
+				)
+			);
+
+			void it(
+				'install without packages list',
+				managerTest(
+					JSON.stringify(packages),
+					async (ManagerTest, path) => {
+						const manager1 = new ManagerTest(path);
+						await manager1.update();
+
+						const file = manager1.pathTo('lock.json');
+						await manager1.lock(
+							[packageMultiA.name, packageNested.name],
+							file
+						);
+						await rm(manager1.pathToMeta(manager1.packagesFile));
+
+						const manager2 = new ManagerTest(path);
+						const list = await manager2.installFromLock(file);
+						strictEqual(manager2.loaded, false);
+
+						deepStrictEqual(
+							list.map(p => [p.package.name, p.error]),
+							[
+								[packageMultiA.name, null],
+								[packageNested.name, null]
+							]
+						);
+						for (const {package: pkg} of list) {
+							strictEqual(
+								// eslint-disable-next-line no-await-in-loop
+								(await manager2.receipt(pkg)).sha256,
+								pkg.sha256
+							);
+						}
+					}
+				)
+			);
+
+			void it(
+				'invalid format',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					const file = manager.pathTo('lock.json');
+					await writeFile(
+						file,
+						JSON.stringify({format: '2.0', packages: []})
+					);
+
+					const error = (await promiseError(
+						manager.installFromLock(file)
+					)) as Error;
+					strictEqual(error.message, 'Invalid lockfile format: 2.0');
+				})
+			);
+
+			void describe('invalid', () => {
+				interface IData {
+					[key: string]: unknown;
+					packages: IData[];
+					parents: IData[];
+				}
+				const cases: [string, string, (data: IData) => void][] = [
+					[
+						'packages[0]',
+						'Expected object',
+						d => {
+							d.packages[0] = null as unknown as IData;
+						}
+					],
+					[
+						'packages[0].parents',
+						'Expected array',
+						d => {
+							delete (d.packages[0] as {parents?: unknown})
+								.parents;
+						}
+					],
+					[
+						'packages[0].zipped',
+						'Expected method-start-size string',
+						d => {
+							delete d.packages[0].zipped;
+						}
+					],
+					[
+						'packages[0].parents[0].sha256',
+						'Expected 64 character hex string',
+						d => {
+							d.packages[0].parents[0].sha256 = 'bad';
+						}
+					],
+					[
+						'packages[0].parents[0].size',
+						'Expected non-negative integer',
+						d => {
+							d.packages[0].parents[0].size = -1;
+						}
+					]
+				];
+				const prefix = 'Failed to validate lockfile: ';
+				for (const [path, message, mutate] of cases) {
+					void it(
+						path,
+						managerTestOne(
+							JSON.stringify(packages),
+							async manager => {
+								await manager.update();
+
+								const file = manager.pathTo('lock.json');
+								const data = (await manager.lock(
+									[packageMultiA.name],
+									file
+								)) as unknown as IData;
+								mutate(data);
+								await writeFile(file, JSON.stringify(data));
+
+								const error = await promiseError(
+									manager.installFromLock(file)
+								);
+								ok(error instanceof LockfileValidationError);
+								strictEqual(error.path, path);
+								strictEqual(
+									error.message,
+									`${prefix}${path}: ${message}`
+								);
+								strictEqual(
+									await manager.isInstalled(
+										packageMultiA.name
+									),
+									false
+								);
+							}
+						)
+					);
+				}
+			});
+		});
+
+		void describe('search', () => {
+			/**
+			 * Search and get the result names.
+			 *
+			 * @param manager Manager instance.
+			 * @param query Search query.
+			 * @returns Package names.
+			 */
+			const searchNames = async (
+				manager: ManagerTest,
+				query: IPackageSearchQuery
+			) => (await manager.search(query)).packages.map(p => p.name);
+
+			void it(
+				'name',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					deepStrictEqual(
+						await searchNames(manager, {name: 'MULTI'}),
+						[
+							packageMulti.name,
+							packageMultiA.name,
+							packageMultiB.name
+						]
+					);
+					deepStrictEqual(
+						await searchNames(manager, {name: 'package-multi-?'}),
+						[packageMultiA.name, packageMultiB.name]
+					);
+					deepStrictEqual(
+						await searchNames(manager, {
+							name: /^package-nested-\d$/
+						}),
+						[packageNested2.name, packageNested1.name]
+					);
+
+					// Global and sticky flags do not skip matches.
+					const global = /multi/g;
+					deepStrictEqual(
+						await searchNames(manager, {name: global}),
+						[
+							packageMulti.name,
+							packageMultiA.name,
+							packageMultiB.name
+						]
+					);
+					strictEqual(global.lastIndex, 0);
+					deepStrictEqual(
+						await searchNames(manager, {name: /package-multi/y}),
+						[
+							packageMulti.name,
+							packageMultiA.name,
+							packageMultiB.name
+						]
+					);
+				})
+			);
+
+			void it(
+				'filters',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					deepStrictEqual(
+						await searchNames(manager, {
+							root: true,
+							sizeMin: 150000
+						}),
+						[packageSingle.name, packageNested2.name]
+					);
+					deepStrictEqual(
+						await searchNames(manager, {
+							root: false,
+							sizeMax: 200000
+						}),
+						[packageNested1.name]
+					);
+					deepStrictEqual(
+						await searchNames(manager, {parent: packageMulti.name}),
+						[packageMultiA.name, packageMultiB.name]
+					);
+				})
+			);
+
+			void it(
+				'metadata',
+				managerTestOne(
+					JSON.stringify({
+						format: '2.0',
+						packages: [
+							{
+								...packageSingle,
+								title: 'Single Package',
+								platform: 'linux',
+								tags: ['sdk', 'runtime'],
+								released: '2020-06-01'
+							},
+							{
+								...packageMulti,
+								title: 'Multi Package',
+								platform: 'win32',
+								tags: ['sdk'],
+								released: '2021-06-01'
+							}
+						]
+					}),
+					async manager => {
+						await manager.update();
+
+						deepStrictEqual(
+							await searchNames(manager, {title: 'package'}),
+							[packageSingle.name, packageMulti.name]
+						);
+						deepStrictEqual(
+							await searchNames(manager, {platform: 'win32'}),
+							[packageMulti.name]
+						);
+						deepStrictEqual(
+							await searchNames(manager, {
+								tags: ['runtime', 'sdk']
+							}),
+							[packageSingle.name]
+						);
+						deepStrictEqual(
+							await searchNames(manager, {
+								releasedMin: '2021-01-01'
+							}),
+							[packageMulti.name]
+						);
+						deepStrictEqual(
+							await searchNames(manager, {
+								sort: 'released',
+								descending: true,
+								limit: 3
+							}),
+							[
+								packageMulti.name,
+								packageSingle.name,
+								packageMultiB.name
+							]
+						);
+					}
+				)
+			);
+
+			void it(
+				'sort and page',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					const result = await manager.search({
+						sort: 'size',
+						offset: 1,
+						limit: 2
+					});
+					strictEqual(result.total, 7);
+					deepStrictEqual(
+						result.packages.map(p => p.name),
+						[packageNested1.name, packageNested2.name]
+					);
+				})
+			);
+		});
+
+		void describe('packageItter', () => {
+			void it(
+				'return',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					const expected = [
+						packageSingle,
+						packageMulti,
+						packageMultiA,
+						packageMultiB,
+						packageNested2,
+						packageNested1,
+						packageNested
+					].map(p => p.name);
+
+					const listed = [];
+					for await (const {name} of manager.packages()) {
+						listed.push(name);
+					}
+					deepStrictEqual(listed, expected);
+				})
+			);
+		});
+
+		void describe('packageByName', () => {
+			void it(
+				'return',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					strictEqual(
+						await manager.packageByName(packageObsoleteA.name),
+						null
+					);
+
+					ok(await manager.packageByName(packageSingle.name));
+				})
+			);
+		});
+
+		void describe('packageBySha256', () => {
+			void it(
+				'return',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					strictEqual(
+						await manager.packageBySha256(
+							packageSingleMetaBad.sha256
+						),
+						null
+					);
+
+					ok(await manager.packageBySha256(packageSingle.sha256));
+				})
+			);
+		});
+
+		void describe('packageBySha1', () => {
+			void it(
+				'return',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					strictEqual(
+						await manager.packageBySha1(packageSingleMetaBad.sha1),
+						null
+					);
+
+					ok(await manager.packageBySha1(packageSingle.sha1));
+				})
+			);
+		});
+
+		void describe('packageByMd5', () => {
+			void it(
+				'return',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					strictEqual(
+						await manager.packageByMd5(packageSingleMetaBad.md5),
+						null
+					);
+
+					ok(await manager.packageByMd5(packageSingle.md5));
+				})
+			);
+		});
+
+		void describe('packageByUnique', () => {
+			void it(
+				'return',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					strictEqual(
+						await manager.packageByUnique(packageObsoleteA.name),
+						null
+					);
+					strictEqual(
+						await manager.packageByUnique(
+							packageSingleMetaBad.sha256
+						),
+						null
+					);
+					strictEqual(
+						await manager.packageByUnique(
+							packageSingleMetaBad.sha1
 						),
 						null
 					);
@@ -1035,54 +2260,530 @@ void describe('manager', () => {
 			);
 
 			void it(
-				'events',
-				managerTestOne(JSON.stringify(packages), async manager => {
-					await manager.update();
+				'events',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					await managerEnsureDirs(manager, [[unknownDirEmpty]]);
+					await managerWritePackageMeta(
+						manager,
+						packageObsoleteA.name,
+						packageObsoleteA
+					);
+					await managerWritePackageMeta(
+						manager,
+						packageObsoleteB.name,
+						packageObsoleteB
+					);
+					await managerWritePackageMeta(
+						manager,
+						packageSingleMetaBad.name,
+						packageSingleMetaBad
+					);
+
+					const events: IPackageEventLog[] = [];
+					const reset = eventsLogger(manager, events);
+
+					await manager.cleanup();
+					deepStrictEqual(events, [
+						{
+							which: 'cleanup-before',
+							package: packageObsoleteA.name
+						},
+						{
+							which: 'cleanup-after',
+							package: packageObsoleteA.name
+						},
+						{
+							which: 'cleanup-before',
+							package: packageObsoleteB.name
+						},
+						{
+							which: 'cleanup-after',
+							package: packageObsoleteB.name
+						}
+					]);
+
+					reset();
+					await manager.cleanup();
+					deepStrictEqual(events, []);
+				})
+			);
+		});
+
+		void describe('overlay', () => {
+			/**
+			 * Write the packages overlay.
+			 *
+			 * @param manager Manager instance.
+			 * @param list Packages list.
+			 */
+			const overlayWrite = async (manager: Manager, list: unknown) => {
+				await mkdir(manager.pathToMeta(), {recursive: true});
+				await writeFile(
+					manager.pathToMeta(manager.packagesOverlayFile),
+					JSON.stringify(list)
+				);
+			};
+
+			void it(
+				'relative source',
+				managerTestOne(
+					JSON.stringify({format: '1.2', packages: [packageMulti]}),
+					async manager => {
+						await manager.update();
+
+						const file = manager.pathToMeta(
+							'private',
+							packageSingle.file
+						);
+						await mkdir(manager.pathToMeta('private'));
+						await writeFile(
+							file,
+							await readFile(
+								`spec/fixtures/packages/${packageSingle.file}`
+							)
+						);
+						await overlayWrite(manager, {
+							format: '1.2',
+							packages: [
+								{
+									...packageSingle,
+									source: `private/${packageSingle.file}`
+								}
+							]
+						});
+
+						const report = await manager.update();
+						deepStrictEqual(
+							report.added.map(p => p.name),
+							[packageSingle.name]
+						);
+
+						await manager.install(packageSingle.name);
+						await manager.packageInstallVerify(packageSingle.name);
+						const receipt = await manager.receipt(
+							packageSingle.name
+						);
+						strictEqual(receipt.url, pathToFileURL(file).href);
+					}
+				)
+			);
+
+			void it(
+				'file url child',
+				managerTestOne(
+					JSON.stringify({format: '1.2', packages: [packageSingle]}),
+					async manager => {
+						const url = pathToFileURL(
+							pathResolve(
+								`spec/fixtures/packages/${packageMulti.file}`
+							)
+						).href;
+						await overlayWrite(manager, {
+							format: '1.2',
+							packages: [{...packageMulti, source: url}]
+						});
+						await manager.update();
+
+						await manager.install(packageMultiA.name);
+						await manager.packageInstallVerify(packageMultiA.name);
+						strictEqual(
+							(await manager.receipt(packageMultiA.name)).url,
+							url
+						);
+					}
+				)
+			);
+		});
+
+		void describe('offline', () => {
+			void it('env', () => {
+				// eslint-disable-next-line no-process-env
+				const {env} = process;
+				const value = env[OFFLINE_ENV];
+				try {
+					env[OFFLINE_ENV] = '1';
+					strictEqual(new Manager().offline, true);
+					env[OFFLINE_ENV] = '0';
+					strictEqual(new Manager().offline, false);
+				} finally {
+					if (typeof value === 'string') {
+						env[OFFLINE_ENV] = value;
+					} else {
+						delete env[OFFLINE_ENV];
+					}
+				}
+			});
+
+			void it(
+				'update',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					manager.offline = true;
+
+					const error = await promiseError(manager.update());
+					ok(error instanceof OfflineError);
+					strictEqual(error.code, 'ERR_OFFLINE');
+					strictEqual(manager.loaded, false);
+				})
+			);
+
+			void it(
+				'install',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+					await manager.install(packageMulti.name);
+
+					const fetch = manager.fetch as IFetch;
+					const requests: string[] = [];
+					manager.fetch = async (url, init) => {
+						requests.push(url);
+						return fetch(url, init);
+					};
+					manager.offline = true;
+
+					await manager.install(packageMultiA.name);
+					await manager.packageInstallVerify(packageMultiA.name);
+
+					const error = await promiseError(
+						manager.install(packageSingle.name)
+					);
+					ok(error instanceof OfflineError);
+					strictEqual(error.package, packageSingle.name);
+					strictEqual(
+						await manager.isInstalled(packageSingle.name),
+						false
+					);
+					deepStrictEqual(requests, []);
+				})
+			);
+
+			void it(
+				'installMany',
+				managerTest(JSON.stringify(packages), async (Manager, path) => {
+					const cache = {path: `${path}/cache`, size: 0};
+					const names = [packageMultiA.name, packageMultiB.name];
+					const manager = new Manager(`${path}/a`);
+					manager.cache = cache;
+					await manager.update();
+					const fetch = manager.fetch as IFetch;
+					const requests: string[] = [];
+					manager.fetch = async (url, init) => {
+						requests.push(url);
+						return fetch(url, init);
+					};
+					manager.offline = true;
+
+					const failed = await manager.installMany(names);
+					for (const {package: pkg, error} of failed) {
+						ok(error instanceof OfflineError);
+						strictEqual(error.package, pkg.name);
+					}
+
+					const manager2 = new Manager(`${path}/b`);
+					manager2.cache = cache;
+					await manager2.update();
+					await manager2.installMany(names);
+
+					deepStrictEqual(
+						(await manager.installMany(names)).map(e => [
+							e.package.name,
+							e.error
+						]),
+						names.map(n => [n, null])
+					);
+					await manager.packageInstallVerify(packageMultiA.name);
+					await manager.packageInstallVerify(packageMultiB.name);
+					deepStrictEqual(requests, []);
+				})
+			);
+		});
+
+		void describe('cache', () => {
+			void it(
+				'shared',
+				managerTest(JSON.stringify(packages), async (Manager, path) => {
+					const cache = {path: `${path}/cache`, size: 0};
+					const manager = new Manager(`${path}/a`);
+					manager.cache = cache;
+					await manager.update();
+					await manager.install(packageSingle.name);
+
+					const manager2 = new Manager(`${path}/b`);
+					manager2.cache = cache;
+					await manager2.update();
+					const fetch = manager2.fetch as IFetch;
+					const requests: string[] = [];
+					manager2.fetch = async (url, init) => {
+						requests.push(url);
+						return fetch(url, init);
+					};
+					manager2.offline = true;
+
+					deepStrictEqual(
+						(await manager2.install(packageSingle.name)).map(
+							p => p.name
+						),
+						[packageSingle.name]
+					);
+					await manager2.packageInstallVerify(packageSingle.name);
+					deepStrictEqual(requests, []);
+
+					// A re-install after remove also uses the cache.
+					await manager.remove(packageSingle.name);
+					manager.offline = true;
+					await manager.install(packageSingle.name);
+					await manager.packageInstallVerify(packageSingle.name);
+				})
+			);
+
+			void it(
+				'installMany',
+				managerTest(JSON.stringify(packages), async (Manager, path) => {
+					const cache = {path: `${path}/cache`, size: 0};
+					const names = [packageMultiA.name, packageMultiB.name];
+					const manager = new Manager(`${path}/a`);
+					manager.cache = cache;
+					await manager.update();
+					await manager.installMany(names);
+
+					const manager2 = new Manager(`${path}/b`);
+					manager2.cache = cache;
+					await manager2.update();
+					const fetch = manager2.fetch as IFetch;
+					const requests: string[] = [];
+					manager2.fetch = async (url, init) => {
+						requests.push(url);
+						return fetch(url, init);
+					};
+
+					const list = await manager2.installMany(names);
+					deepStrictEqual(
+						list.map(e => [e.package.name, e.error]),
+						names.map(n => [n, null])
+					);
+					await manager2.packageInstallVerify(packageMultiA.name);
+					await manager2.packageInstallVerify(packageMultiB.name);
+					deepStrictEqual(requests, []);
+				})
+			);
+
+			void it(
+				'evict',
+				managerTest(JSON.stringify(packages), async (Manager, path) => {
+					const manager = new Manager(`${path}/a`);
+					manager.cache = {
+						path: `${path}/cache`,
+						size: packageMulti.size + packageMultiA.size
+					};
+					await manager.update();
+					await manager.install(packageSingle.name);
+					await manager.install(packageMulti.name);
+					await manager.install(packageMultiA.name);
+
+					deepStrictEqual(
+						(await readdir(`${path}/cache`)).sort(),
+						[packageMultiA.sha256, packageMulti.sha256].sort()
+					);
+				})
+			);
+		});
+
+		void describe('requires', () => {
+			const packagesRequires = {
+				format: '2.0',
+				packages: [
+					{...packageSingle, requires: [packageMultiA.name]},
+					{...packageMulti, requires: [packageNested.name]},
+					packageNested2
+				]
+			};
+			const packagesCycle = {
+				format: '2.0',
+				packages: [
+					{...packageSingle, requires: [packageMulti.name]},
+					{...packageMulti, requires: [packageSingle.name]}
+				]
+			};
+
+			void it(
+				'install order',
+				managerTestOne(
+					JSON.stringify(packagesRequires),
+					async manager => {
+						await manager.update();
+
+						const installed: string[] = [];
+						manager.eventPackageInstallAfter.on(event => {
+							installed.push(event.package.name);
+						});
+
+						await manager.install(packageSingle.name);
+
+						deepStrictEqual(installed, [
+							packageMultiA.name,
+							packageSingle.name
+						]);
+						strictEqual(
+							await manager.isInstalled(packageMultiA.name),
+							true
+						);
+					}
+				)
+			);
+
+			void it(
+				'cycle',
+				managerTestOne(JSON.stringify(packagesCycle), async manager => {
+					await manager.update();
+
+					const error = await promiseError(
+						manager.install(packageSingle.name)
+					);
+
+					ok(error instanceof DependencyCycleError);
+					deepStrictEqual(error.cycle, [
+						packageSingle.name,
+						packageMulti.name,
+						packageSingle.name
+					]);
+					strictEqual(
+						await manager.isInstalled(packageSingle.name),
+						false
+					);
+				})
+			);
+
+			void it(
+				'installMany',
+				managerTestOne(
+					JSON.stringify(packagesRequires),
+					async manager => {
+						await manager.update();
+
+						const installed: string[] = [];
+						manager.eventPackageInstallAfter.on(event => {
+							installed.push(event.package.name);
+						});
+
+						const list = await manager.installMany([
+							packageSingle.name,
+							packageMulti.name
+						]);
+
+						deepStrictEqual(
+							list.map(e => [e.package.name, e.error]),
+							[
+								[packageMultiA.name, null],
+								[packageSingle.name, null],
+								[packageNested.name, null],
+								[packageMulti.name, null]
+							]
+						);
+						for (const [name, required] of [
+							[packageSingle.name, packageMultiA.name],
+							[packageMulti.name, packageNested.name]
+						]) {
+							ok(
+								installed.indexOf(required) <
+									installed.indexOf(name)
+							);
+						}
+					}
+				)
+			);
+
+			void it(
+				'installMany cycle',
+				managerTestOne(JSON.stringify(packagesCycle), async manager => {
+					await manager.update();
+
+					const error = await promiseError(
+						manager.installMany([packageSingle.name])
+					);
+
+					ok(error instanceof DependencyCycleError);
+					strictEqual(
+						await manager.isInstalled(packageSingle.name),
+						false
+					);
+				})
+			);
+
+			void it(
+				'lockfile',
+				managerTest(
+					JSON.stringify(packagesRequires),
+					async (ManagerTest, path) => {
+						const manager1 = new ManagerTest(`${path}/a`);
+						await manager1.update();
+
+						const file = manager1.pathTo('lock.json');
+						const lockfile = await manager1.lock(
+							[packageSingle.name],
+							file
+						);
+						deepStrictEqual(
+							lockfile.packages.map(p => [
+								p.name,
+								p.requires || null
+							]),
+							[
+								[packageMultiA.name, null],
+								[packageSingle.name, [packageMultiA.name]]
+							]
+						);
+
+						const manager2 = new ManagerTest(`${path}/b`);
+						await manager2.update();
+						const list = await manager2.installFromLock(file);
+
+						deepStrictEqual(
+							list.map(e => [e.package.name, e.error]),
+							[
+								[packageMultiA.name, null],
+								[packageSingle.name, null]
+							]
+						);
+					}
+				)
+			);
+
+			void it(
+				'remove required',
+				managerTestOne(
+					JSON.stringify(packagesRequires),
+					async manager => {
+						await manager.update();
 
-					await managerEnsureDirs(manager, [[unknownDirEmpty]]);
-					await managerWritePackageMeta(
-						manager,
-						packageObsoleteA.name,
-						packageObsoleteA
-					);
-					await managerWritePackageMeta(
-						manager,
-						packageObsoleteB.name,
-						packageObsoleteB
-					);
-					await managerWritePackageMeta(
-						manager,
-						packageSingleMetaBad.name,
-						packageSingleMetaBad
-					);
+						await manager.install(packageSingle.name);
 
-					const events: IPackageEventLog[] = [];
-					const reset = eventsLogger(manager, events);
+						const error = await promiseError(
+							manager.remove(packageMultiA.name)
+						);
+						ok(error instanceof PackageRequiredError);
+						deepStrictEqual(error.requiredBy, [packageSingle.name]);
+						strictEqual(
+							await manager.isInstalled(packageMultiA.name),
+							true
+						);
 
-					await manager.cleanup();
-					deepStrictEqual(events, [
-						{
-							which: 'cleanup-before',
-							package: packageObsoleteA.name
-						},
-						{
-							which: 'cleanup-after',
-							package: packageObsoleteA.name
-						},
-						{
-							which: 'cleanup-before',
-							package: packageObsoleteB.name
-						},
-						{
-							which: 'cleanup-after',
-							package: packageObsoleteB.name
-						}
-					]);
+						const events: string[][] = [];
+						manager.eventPackageRemoveRequired.on(event => {
+							events.push(event.requiredBy.map(p => p.name));
+						});
 
-					reset();
-					await manager.cleanup();
-					deepStrictEqual(events, []);
-				})
+						strictEqual(
+							await manager.remove(packageMultiA.name, true),
+							true
+						);
+						deepStrictEqual(events, [[packageSingle.name]]);
+						strictEqual(
+							await manager.isInstalled(packageMultiA.name),
+							false
+						);
+					}
+				)
 			);
 		});
 
@@ -1374,76 +3075,424 @@ void describe('manager', () => {
 						);
 
 						strictEqual(
-							await managerDirExists(manager, [
-								packageNested2.name
-							]),
-							false
+							await managerDirExists(manager, [
+								packageNested2.name
+							]),
+							false
+						);
+					})
+				);
+
+				void it(
+					'return',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						await manager.update();
+
+						const a = await manager.install(packageNested.name);
+						const b = await manager.install(packageNested.name);
+
+						const aValues = a.map(p => p.name);
+						deepStrictEqual(aValues, [
+							packageNested2.name,
+							packageNested1.name,
+							packageNested.name
+						]);
+						deepStrictEqual(b, []);
+					})
+				);
+
+				void it(
+					'events',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						await manager.update();
+
+						const events: IPackageEventLog[] = [];
+						const reset = eventsLogger(manager, events);
+
+						await manager.install(packageNested.name);
+						deepStrictEqual(events, [
+							{
+								which: 'install-before',
+								package: 'package-nested'
+							},
+							{
+								which: 'download-before',
+								package: 'package-nested'
+							},
+							{
+								which: 'download-progress',
+								package: 'package-nested'
+							},
+							{
+								which: 'download-progress',
+								package: 'package-nested'
+							},
+							{
+								which: 'download-after',
+								package: 'package-nested'
+							},
+							{
+								which: 'install-after',
+								package: 'package-nested'
+							}
+						]);
+
+						reset();
+						await manager.install(packageNested.name);
+						deepStrictEqual(events, [
+							{
+								which: 'install-current',
+								package: 'package-nested'
+							}
+						]);
+					})
+				);
+			});
+
+			void describe('resume', () => {
+				const writePartial = async (manager: Manager, size: number) => {
+					const data = await readFile(
+						`spec/fixtures/packages/${packageSingle.file}`
+					);
+					const tmpDir = manager.pathTo(
+						packageSingle.name,
+						manager.metaDir,
+						'tmp'
+					);
+					await mkdir(tmpDir, {recursive: true});
+					await writeFile(
+						`${tmpDir}/${packageSingle.sha256}.tmp`,
+						data.subarray(0, size)
+					);
+				};
+
+				void it(
+					'partial',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						await manager.update();
+						await writePartial(manager, 100000);
+
+						const ranges: (string | null)[] = [];
+						const fetch = manager.fetch as IFetch;
+						manager.fetch = async (url, init) => {
+							ranges.push(init?.headers?.Range ?? null);
+							return fetch(url, init);
+						};
+
+						await manager.install(packageSingle.name);
+
+						deepStrictEqual(ranges, ['bytes=100000-']);
+						strictEqual(
+							await managerFileSha256(manager, [
+								packageSingle.name,
+								packageSingle.file
+							]),
+							packageSingle.sha256
+						);
+					})
+				);
+
+				void it(
+					'range ignored',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						await manager.update();
+						await writePartial(manager, 100000);
+
+						const fetch = manager.fetch as IFetch;
+						manager.fetch = async (url, init) => {
+							const headers = {...init?.headers};
+							delete headers.Range;
+							return fetch(url, {...init, headers});
+						};
+
+						await manager.install(packageSingle.name);
+
+						strictEqual(
+							await managerFileSha256(manager, [
+								packageSingle.name,
+								packageSingle.file
+							]),
+							packageSingle.sha256
+						);
+					})
+				);
+			});
+
+			void describe('timeout', () => {
+				void it(
+					'response',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						await manager.update();
+
+						const fetch = manager.fetch as IFetch;
+						let stalls = 1;
+						manager.fetch = async (url, init) => {
+							if (stalls-- > 0) {
+								return new Promise((_resolve, reject) => {
+									const signal = init?.signal as AbortSignal;
+									signal.addEventListener('abort', () => {
+										reject(signal.reason);
+									});
+								});
+							}
+							return fetch(url, init);
+						};
+						manager.timeout = {response: 50, idle: 0};
+						manager.retry = {...manager.retry, delay: 0};
+						const errors: Error[] = [];
+						manager.eventRequestRetry.on(event => {
+							errors.push(event.error);
+						});
+
+						await manager.install(packageSingle.name);
+
+						strictEqual(
+							await manager.isCurrent(packageSingle.name),
+							true
+						);
+						strictEqual(errors.length, 1);
+						ok(errors[0] instanceof TimeoutError);
+						strictEqual(errors[0].code, 'ERR_TIMEOUT');
+						ok(
+							errors[0].message.startsWith(
+								'Response timeout: 50ms'
+							)
+						);
+					})
+				);
+
+				void it(
+					'idle',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						await manager.update();
+
+						const data = await readFile(
+							`spec/fixtures/packages/${packageSingle.file}`
+						);
+						const fetch = manager.fetch as IFetch;
+						const ranges: (string | null)[] = [];
+						manager.fetch = async (url, init) => {
+							ranges.push(init?.headers?.Range ?? null);
+							if (ranges.length > 1) {
+								return fetch(url, init);
+							}
+							const body = new Readable({
+								read() {
+									// Never push more.
+								}
+							});
+							body.push(data.subarray(0, 100000));
+							return {
+								status: 200,
+								headers: {
+									get: () => null
+								},
+								body,
+								text: async () => Promise.resolve('')
+							};
+						};
+						manager.timeout = {response: 0, idle: 50};
+						manager.retry = {...manager.retry, delay: 0};
+
+						await manager.install(packageSingle.name);
+
+						strictEqual(
+							await manager.isCurrent(packageSingle.name),
+							true
+						);
+						deepStrictEqual(ranges, [null, 'bytes=100000-']);
+					})
+				);
+			});
+
+			void describe('mirrors', () => {
+				void it(
+					'base url',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const {origin, host} = new URL(manager.packagesUrl);
+						const requests: string[] = [];
+						const fetch = manager.fetch as IFetch;
+						manager.fetch = async (url, init) => {
+							requests.push(url);
+							return fetch(url, init);
+						};
+						manager.mirrors = [`${origin}/mirror/`];
+
+						await manager.update();
+						await manager.install(packageMultiA.name);
+
+						const mirror = `${origin}/mirror/${host}`;
+						deepStrictEqual(requests, [
+							`${mirror}/packages.json`,
+							`${mirror}/packages/package-multi.zip`
+						]);
+						strictEqual(
+							(await manager.receipt(packageMultiA.name)).url,
+							`${mirror}/packages/package-multi.zip`
+						);
+					})
+				);
+
+				void it(
+					'failover',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						const {origin} = new URL(manager.packagesUrl);
+						const requests: string[] = [];
+						const fetch = manager.fetch as IFetch;
+						manager.fetch = async (url, init) => {
+							requests.push(url);
+							return fetch(url, init);
+						};
+						manager.mirrors = [
+							{
+								from: `${origin}/`,
+								to: `${origin}/missing/`
+							}
+						];
+
+						await manager.update();
+						await manager.install(packageSingle.name);
+
+						deepStrictEqual(requests, [
+							`${origin}/missing/packages.json`,
+							`${origin}/packages.json`,
+							`${origin}/missing/packages/package-single.bin`,
+							`${origin}/packages/package-single.bin`
+						]);
+						strictEqual(
+							(await manager.receipt(packageSingle.name)).url,
+							`${origin}/packages/package-single.bin`
+						);
+					})
+				);
+			});
+
+			void describe('concurrent', () => {
+				void it(
+					'same package',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						await manager.update();
+
+						const [a, b] = await Promise.all([
+							manager.install(packageSingle.name),
+							manager.install(packageSingle.name)
+						]);
+
+						deepStrictEqual(
+							[a, b].map(l => l.map(p => p.name)).sort(),
+							[[], [packageSingle.name]]
+						);
+						strictEqual(
+							await manager.isCurrent(packageSingle.name),
+							true
+						);
+						strictEqual(
+							await managerFileExists(manager, [
+								manager.metaDir,
+								`${packageSingle.name}.lock`
+							]),
+							false
+						);
+					})
+				);
+				void it(
+					'overlapping many',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						manager.lockPolicy = {
+							...manager.lockPolicy,
+							timeout: 5000
+						};
+						await manager.update();
+
+						const lists = await Promise.all([
+							manager.installMany([
+								packageMultiA.name,
+								packageMultiB.name
+							]),
+							manager.installMany([
+								packageMulti.name,
+								packageMultiA.name
+							])
+						]);
+
+						for (const list of lists) {
+							deepStrictEqual(
+								list.map(e => e.error),
+								[null, null]
+							);
+						}
+						strictEqual(
+							await manager.isCurrent(packageMultiB.name),
+							true
 						);
 					})
 				);
+			});
 
+			void describe('abort', () => {
 				void it(
-					'return',
+					'aborted',
 					managerTestOne(JSON.stringify(packages), async manager => {
 						await manager.update();
 
-						const a = await manager.install(packageNested.name);
-						const b = await manager.install(packageNested.name);
+						const controller = new AbortController();
+						controller.abort();
+						const error = (await promiseError(
+							manager.install(
+								packageSingle.name,
+								controller.signal
+							)
+						)) as Error;
 
-						const aValues = a.map(p => p.name);
-						deepStrictEqual(aValues, [
-							packageNested2.name,
-							packageNested1.name,
-							packageNested.name
-						]);
-						deepStrictEqual(b, []);
+						strictEqual(error.name, 'AbortError');
+						strictEqual(
+							await manager.isInstalled(packageSingle.name),
+							false
+						);
 					})
 				);
 
 				void it(
-					'events',
+					'one of many',
 					managerTestOne(JSON.stringify(packages), async manager => {
 						await manager.update();
 
-						const events: IPackageEventLog[] = [];
-						const reset = eventsLogger(manager, events);
-
-						await manager.install(packageNested.name);
-						deepStrictEqual(events, [
-							{
-								which: 'install-before',
-								package: 'package-nested'
-							},
-							{
-								which: 'download-before',
-								package: 'package-nested'
-							},
-							{
-								which: 'download-progress',
-								package: 'package-nested'
-							},
-							{
-								which: 'download-progress',
-								package: 'package-nested'
-							},
-							{
-								which: 'download-after',
-								package: 'package-nested'
-							},
-							{
-								which: 'install-after',
-								package: 'package-nested'
+						const controller = new AbortController();
+						manager.eventPackageDownloadProgress.on(event => {
+							if (
+								event.package.name === packageSingle.name &&
+								event.amount
+							) {
+								controller.abort();
 							}
+						});
+						const [error] = await Promise.all([
+							promiseError(
+								manager.install(
+									packageSingle.name,
+									controller.signal
+								)
+							),
+							manager.install(packageNested.name)
 						]);
 
-						reset();
-						await manager.install(packageNested.name);
-						deepStrictEqual(events, [
-							{
-								which: 'install-current',
-								package: 'package-nested'
-							}
-						]);
+						strictEqual((error as Error).name, 'AbortError');
+						strictEqual(
+							await manager.isInstalled(packageSingle.name),
+							false
+						);
+						strictEqual(
+							await managerDirExists(manager, [
+								packageSingle.name,
+								manager.metaDir,
+								'tmp'
+							]),
+							false
+						);
+						strictEqual(
+							await manager.isCurrent(packageNested.name),
+							true
+						);
 					})
 				);
 			});
@@ -1495,6 +3544,49 @@ void describe('manager', () => {
 						reset();
 					})
 				);
+
+				void it(
+					'return',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						await manager.update();
+
+						await manager.install(packageNested1.name);
+						const a = await manager.install(packageNested.name);
+
+						const aValues = a.map(p => p.name);
+						deepStrictEqual(aValues, [
+							packageNested1.name,
+							packageNested.name
+						]);
+					})
+				);
+
+				void it(
+					'offline',
+					managerTestOne(JSON.stringify(packages), async manager => {
+						await manager.update();
+
+						await manager.install(packageMulti.name);
+						manager.fetch = null;
+						await manager.install(packageMultiA.name);
+						await manager.install(packageMultiB.name);
+
+						strictEqual(
+							await managerFileSha256(manager, [
+								packageMultiA.name,
+								packageMultiA.file
+							]),
+							packageMultiA.sha256
+						);
+						strictEqual(
+							await managerFileSha256(manager, [
+								packageMultiB.name,
+								packageMultiB.file
+							]),
+							packageMultiB.sha256
+						);
+					})
+				);
 			});
 
 			void describe('reuse closest: 2', () => {
@@ -1633,6 +3725,265 @@ void describe('manager', () => {
 			);
 		});
 
+		void describe('plan', () => {
+			/**
+			 * Simplify plan for comparison.
+			 *
+			 * @param plan Install plan.
+			 * @returns Plan values.
+			 */
+			const planValues = (plan: IPackageInstallPlan) => ({
+				method: plan.method,
+				packages: plan.packages.map(p => p.name),
+				range: plan.range,
+				steps: plan.steps.map(s => [
+					s.package.name,
+					s.slice,
+					s.compression
+				]),
+				transfer: plan.transfer
+			});
+
+			void it(
+				'full',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					deepStrictEqual(
+						planValues(await manager.plan(packageSingle.name)),
+						{
+							method: 'full',
+							packages: [packageSingle.name],
+							range: null,
+							steps: [],
+							transfer: packageSingle.size
+						}
+					);
+				})
+			);
+
+			void it(
+				'range',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					deepStrictEqual(
+						planValues(await manager.plan(packageMultiA.name)),
+						{
+							method: 'range',
+							packages: [packageMulti.name, packageMultiA.name],
+							range: [107, 65092],
+							steps: [[packageMultiA.name, null, 8]],
+							transfer: 65092
+						}
+					);
+				})
+			);
+
+			void it(
+				'nested',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					deepStrictEqual(
+						planValues(await manager.plan(packageNested.name)),
+						{
+							method: 'range',
+							packages: [
+								packageNested2.name,
+								packageNested1.name,
+								packageNested.name
+							],
+							range: [356, 171223],
+							steps: [[packageNested.name, null, 8]],
+							transfer: 171223
+						}
+					);
+				})
+			);
+
+			void it(
+				'local',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+					await manager.install(packageNested2.name);
+
+					deepStrictEqual(
+						planValues(await manager.plan(packageNested.name)),
+						{
+							method: 'local',
+							packages: [
+								packageNested2.name,
+								packageNested1.name,
+								packageNested.name
+							],
+							range: [356, 171223],
+							steps: [[packageNested.name, null, 8]],
+							transfer: 0
+						}
+					);
+				})
+			);
+
+			void it(
+				'current',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+					await manager.install(packageSingle.name);
+
+					deepStrictEqual(
+						planValues(await manager.plan(packageSingle.name)),
+						{
+							method: 'current',
+							packages: [],
+							range: null,
+							steps: [],
+							transfer: 0
+						}
+					);
+				})
+			);
+		});
+
+		void describe('installMany', () => {
+			/**
+			 * Log fetch requests.
+			 *
+			 * @param manager Manager instance.
+			 * @returns List of requests.
+			 */
+			const fetchLog = (manager: Manager) => {
+				const fetch = manager.fetch as IFetch;
+				const requests: string[] = [];
+				manager.fetch = async (url, init) => {
+					requests.push(
+						`${url} ${init?.headers?.Range ?? ''}`.trim()
+					);
+					return fetch(url, init);
+				};
+				return requests;
+			};
+
+			void it(
+				'shared',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					const requests = fetchLog(manager);
+					const events: IPackageEventLog[] = [];
+					eventsLogger(manager, events);
+
+					const list = await manager.installMany([
+						packageMultiB.name,
+						packageMultiA.name,
+						packageMultiA.name
+					]);
+
+					deepStrictEqual(
+						list.map(p => ({
+							name: p.package.name,
+							install: p.install.map(p => p.name),
+							error: p.error
+						})),
+						[
+							{
+								name: packageMultiB.name,
+								install: [
+									packageMulti.name,
+									packageMultiB.name
+								],
+								error: null
+							},
+							{
+								name: packageMultiA.name,
+								install: [
+									packageMulti.name,
+									packageMultiA.name
+								],
+								error: null
+							}
+						]
+					);
+					const {href} = new URL(
+						packageMulti.source,
+						manager.packagesUrl
+					);
+					deepStrictEqual(requests, [`${href} bytes=107-129966`]);
+					deepStrictEqual(
+						events
+							.filter(e => e.which.startsWith('install-'))
+							.map(e => `${e.which} ${e.package}`),
+						[
+							`install-before ${packageMultiB.name}`,
+							`install-after ${packageMultiB.name}`,
+							`install-before ${packageMultiA.name}`,
+							`install-after ${packageMultiA.name}`
+						]
+					);
+					strictEqual(
+						await manager.isCurrent(packageMultiA.name),
+						true
+					);
+					strictEqual(
+						await manager.isCurrent(packageMultiB.name),
+						true
+					);
+					strictEqual(
+						await manager.isInstalled(packageMulti.name),
+						false
+					);
+				})
+			);
+
+			void it(
+				'separate',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					const requests = fetchLog(manager);
+					manager.coalesce = 0;
+
+					await manager.installMany([
+						packageMultiA.name,
+						packageMultiB.name
+					]);
+
+					strictEqual(requests.length, 2);
+					strictEqual(
+						await manager.isCurrent(packageMultiA.name),
+						true
+					);
+					strictEqual(
+						await manager.isCurrent(packageMultiB.name),
+						true
+					);
+				})
+			);
+
+			void it(
+				'parent',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					const requests = fetchLog(manager);
+
+					const list = await manager.installMany([
+						packageMultiA.name,
+						packageMulti.name
+					]);
+
+					deepStrictEqual(
+						list.map(p => p.install.map(p => p.name)),
+						[
+							[packageMulti.name, packageMultiA.name],
+							[packageMulti.name]
+						]
+					);
+					strictEqual(requests.length, 1);
+				})
+			);
+		});
+
 		void describe('upgrade', () => {
 			void it(
 				'files',
@@ -1690,6 +4041,68 @@ void describe('manager', () => {
 				})
 			);
 
+			void it(
+				'errors',
+				managerTestOne(JSON.stringify(packages), async manager => {
+					await manager.update();
+
+					await manager.install(packageSingle.name);
+					await manager.install(packageNested1.name);
+
+					await managerWritePackageMeta(
+						manager,
+						packageSingleMetaBad.name,
+						packageSingleMetaBad
+					);
+					await managerWritePackageMeta(
+						manager,
+						packageNested1MetaBad.name,
+						packageNested1MetaBad
+					);
+
+					const fetch = manager.fetch as IFetch;
+					manager.fetch = async (url, init) => {
+						const res = await fetch(url, init);
+						return url.endsWith(packageSingle.source)
+							? {...res, status: 404}
+							: res;
+					};
+					manager.concurrency = 2;
+
+					const list = await manager.upgrade();
+					deepStrictEqual(
+						list.map(p => ({
+							name: p.package.name,
+							install: p.install.map(p => p.name),
+							error: !!p.error
+						})),
+						[
+							{
+								name: packageNested1.name,
+								install: [
+									packageNested2.name,
+									packageNested1.name
+								],
+								error: false
+							},
+							{
+								name: packageSingle.name,
+								install: [],
+								error: true
+							}
+						]
+					);
+					strictEqual(
+						await manager.isCurrent(packageSingle.name),
+						false
+					);
+					strictEqual(
+						await manager.isCurrent(packageNested1.name),
+						true
+					);
+				})
+			);
+
 			void it(
 				'events',
 				managerTestOne(JSON.stringify(packages), async manager => {
@@ -1861,6 +4274,9 @@ void describe('manager', () => {
 						(error as Error).message,
 						`Package is not installed: ${packageSingle.name}`
 					);
+					ok(error instanceof PackageNotInstalledError);
+					strictEqual(error.code, 'ERR_PACKAGE_NOT_INSTALLED');
+					strictEqual(error.package, packageSingle.name);
 				})
 			);
 
@@ -1884,6 +4300,10 @@ void describe('manager', () => {
 						(error as Error).message,
 						`Invalid file size: ${size}`
 					);
+					ok(error instanceof SizeMismatchError);
+					strictEqual(error.code, 'ERR_SIZE_MISMATCH');
+					strictEqual(error.expected, packageSingle.size);
+					strictEqual(error.actual, size);
 				})
 			);
 
@@ -1909,6 +4329,10 @@ void describe('manager', () => {
 						(error as Error).message,
 						`Invalid sha256 hash: ${hash}`
 					);
+					ok(error instanceof HashMismatchError);
+					strictEqual(error.code, 'ERR_HASH_MISMATCH');
+					strictEqual(error.expected, packageSingle.sha256);
+					strictEqual(error.actual, hash);
 				})
 			);
 		});
@@ -1,6 +1,8 @@
 import {createReadStream} from 'node:fs';
 import {
 	access,
+	copyFile,
+	link,
 	lstat,
 	mkdir,
 	open,
@@ -8,43 +10,120 @@ import {
 	readFile,
 	rename,
 	rm,
+	utimes,
 	writeFile
 } from 'node:fs/promises';
-import {join as pathJoin} from 'node:path';
+import {isAbsolute, join as pathJoin, resolve as pathResolve} from 'node:path';
 import {Readable, Transform} from 'node:stream';
 import {ReadableStream} from 'node:stream/web';
 import {pipeline} from 'node:stream/promises';
-import {createHash} from 'node:crypto';
+import {setTimeout as sleep} from 'node:timers/promises';
+import {fileURLToPath, pathToFileURL} from 'node:url';
+import {createHash, createPublicKey, KeyObject, verify} from 'node:crypto';
 
 import {
+	LOCK_EXT,
+	LOCKFILE_FORMAT,
 	MAIN_DIR,
 	META_DIR,
 	PACKAGE_FILE,
+	PACKAGES_CACHE_FILE,
 	PACKAGES_FILE,
+	PACKAGES_HISTORY_DIR,
+	PACKAGES_OVERLAY_FILE,
 	PACKAGES_URL,
 	PACKAGES_URL_ENV,
+	PINS_FILE,
+	REGISTRIES_DIR,
+	SIGNATURE_EXT,
 	TEMP_EXT,
 	PATH_ENV,
+	OFFLINE_ENV,
 	TEMP_DIR
 } from './constants';
 import {Dispatcher} from './dispatcher';
-import {EmptyStream, SliceStream, WriterStream} from './stream';
-import {Package} from './package';
+import {
+	DependencyCycleError,
+	FetchUnavailableError,
+	FormatVersionError,
+	HashInvalidError,
+	HashMismatchError,
+	HistoryUnknownError,
+	LockfileValidationError,
+	NetworkError,
+	OfflineError,
+	PackageNotInstalledError,
+	PackageRequiredError,
+	PackagesNotLoadedError,
+	PackagesValidationError,
+	PackageUnknownError,
+	PinUnavailableError,
+	RangeInvalidError,
+	RegistryNameError,
+	SignatureError,
+	SizeMismatchError,
+	StatusError,
+	TimeoutError
+} from './errors';
+import {ILockPolicy, Lock} from './lock';
+import {EmptyStream, SliceStream, TimeoutStream, WriterStream} from './stream';
+import {IPackagesListPackage, Package} from './package';
 import {Packages} from './packages';
-import {IFetch} from './types';
+import {IFetch, IFetchRequestInit, IFetchResponse} from './types';
 import {NAME, VERSION} from './meta';
 
-/**
- * Retry once on error.
- *
- * @param f The function to try.
- * @returns The result.
- */
-async function retry<T>(f: () => Promise<T>) {
-	return f().catch(async () => f());
+export type PackageLike = Package | string;
+
+export interface IMirrorRewrite {
+	/**
+	 * URL prefix to match.
+	 */
+	from: string;
+
+	/**
+	 * Replacement for the matched prefix.
+	 */
+	to: string;
 }
 
-export type PackageLike = Package | string;
+export type Mirror = string | IMirrorRewrite;
+
+export interface IRetryPolicy {
+	/**
+	 * Maximum number of attempts, including the first one.
+	 */
+	attempts: number;
+
+	/**
+	 * Delay before the first retry in milliseconds.
+	 */
+	delay: number;
+
+	/**
+	 * Maximum delay between retries in milliseconds.
+	 */
+	delayMax: number;
+
+	/**
+	 * Delay multiplier applied after each retry.
+	 */
+	factor: number;
+
+	/**
+	 * Random jitter ratio between 0 and 1 subtracted from each delay.
+	 */
+	jitter: number;
+
+	/**
+	 * Retryable HTTP response statuses.
+	 */
+	statuses: number[];
+
+	/**
+	 * Retryable error codes, including error cause codes.
+	 */
+	codes: string[];
+}
 
 export interface IPackageReceipt {
 	/**
@@ -71,6 +150,11 @@ export interface IPackageReceipt {
 	 * Source, URL for root or file path for children.
 	 */
 	source: string;
+
+	/**
+	 * URL the package was downloaded from, if downloaded.
+	 */
+	url?: string;
 }
 
 export interface IPackageInstallBefore {
@@ -125,555 +209,2216 @@ export interface IPackageDownloadProgress {
 	amount: number;
 }
 
-export interface IPackageCleanupBefore {
+export interface ITimeoutPolicy {
 	/**
-	 * Package name.
+	 * Time to wait for a response in milliseconds, 0 to disable.
 	 */
-	package: string;
+	response: number;
+
+	/**
+	 * Time to wait for more data in milliseconds, 0 to disable.
+	 */
+	idle: number;
 }
 
-export interface IPackageCleanupAfter {
+export interface IRegistry {
 	/**
-	 * Package name.
+	 * Registry name, also names the stored packages list.
 	 */
-	package: string;
+	name: string;
 
 	/**
-	 * Package removed.
+	 * Packages list URL.
 	 */
-	removed: boolean;
+	url: string;
 }
 
-export interface IPackageInstalled {
+export interface ICachePolicy {
 	/**
-	 * Package installed.
+	 * Shared cache directory, or null to disable.
 	 */
-	package: Package;
+	path: string | null;
 
 	/**
-	 * List of packages used in install, empty if already installed.
+	 * Maximum total size in bytes, least recently used evicted first.
+	 * Zero for no limit.
 	 */
-	install: Package[];
+	size: number;
 }
 
-export interface IPackageRemovedObsolete {
+export interface ISignaturePolicy {
 	/**
-	 * Package removed.
+	 * Trusted Ed25519 public keys, PEM encoded or key objects.
 	 */
-	package: string;
+	keys: (string | KeyObject)[];
 
 	/**
-	 * Removed or already removed.
+	 * Require a valid signature, else only verify signatures if present.
 	 */
-	removed: boolean;
+	required: boolean;
 }
 
-/**
- * Package manager.
- */
-export class Manager {
+export interface IRequestRetry {
 	/**
-	 * Root path.
+	 * Package instance, or null for the packages list.
 	 */
-	public readonly path: string;
+	package: Package | null;
 
 	/**
-	 * The default headers for HTTP requests.
+	 * Request URL.
 	 */
-	public headers: {[header: string]: string} = {
-		// eslint-disable-next-line @typescript-eslint/naming-convention
-		'User-Agent': `${NAME}/${VERSION}`
-	};
+	url: string;
 
 	/**
-	 * A fetch-like interface requiring only a sebset of features.
+	 * The attempt about to be made.
 	 */
-	public fetch: IFetch | null =
-		typeof fetch === 'undefined' ? null : (fetch as unknown as IFetch);
+	attempt: number;
 
 	/**
-	 * Package install before events.
+	 * Maximum number of attempts.
 	 */
-	public readonly eventPackageInstallBefore =
-		new Dispatcher<IPackageInstallBefore>(this);
+	attempts: number;
 
 	/**
-	 * Package install after events.
+	 * Delay before the attempt in milliseconds.
 	 */
-	public readonly eventPackageInstallAfter =
-		new Dispatcher<IPackageInstallAfter>(this);
+	delay: number;
 
 	/**
-	 * Package install current events.
+	 * Response status that caused the retry, if any.
 	 */
-	public readonly eventPackageInstallCurrent =
-		new Dispatcher<IPackageInstallCurrent>(this);
+	status: number | null;
 
 	/**
-	 * Package download before events.
+	 * Error that caused the retry.
 	 */
-	public readonly eventPackageDownloadBefore =
-		new Dispatcher<IPackageDownloadBefore>(this);
+	error: Error;
+}
 
+export interface IPackageCleanupBefore {
 	/**
-	 * Package download after events.
+	 * Package name.
 	 */
-	public readonly eventPackageDownloadAfter =
-		new Dispatcher<IPackageDownloadAfter>(this);
+	package: string;
+}
 
+export interface IPackageCleanupAfter {
 	/**
-	 * Package download progress events.
+	 * Package name.
 	 */
-	public readonly eventPackageDownloadProgress =
-		new Dispatcher<IPackageDownloadProgress>(this);
+	package: string;
 
 	/**
-	 * Package cleanup before events.
+	 * Package removed.
 	 */
-	public readonly eventPackageCleanupBefore =
-		new Dispatcher<IPackageCleanupBefore>(this);
+	removed: boolean;
+}
 
+export interface IPackageRemoveRequired {
 	/**
-	 * Package cleanup after events.
+	 * Package name.
 	 */
-	public readonly eventPackageCleanupAfter =
-		new Dispatcher<IPackageCleanupAfter>(this);
+	package: string;
 
 	/**
-	 * Packages instance.
+	 * Installed packages requiring the package.
 	 */
-	protected readonly _packages: Packages;
+	requiredBy: Package[];
+}
 
+export interface IPackageInstalled {
 	/**
-	 * Manager constructor.
-	 *
-	 * @param path The path, defaults to environment variable or relative.
+	 * Package installed.
 	 */
-	constructor(path: string | null = null) {
-		this.path = this._createPath(path);
-		this._packages = this._createPackages();
-	}
+	package: Package;
 
 	/**
-	 * Packages URL.
-	 *
-	 * @returns The URL.
+	 * List of packages used in install, empty if already installed.
 	 */
-	public get packagesUrl() {
-		// eslint-disable-next-line no-process-env
-		return process.env[PACKAGES_URL_ENV] || PACKAGES_URL;
-	}
+	install: Package[];
 
 	/**
-	 * Packages file.
-	 *
-	 * @returns The file.
+	 * Error if install failed, else null.
 	 */
-	public get packagesFile() {
-		return PACKAGES_FILE;
-	}
+	error: Error | null;
+}
+
+export type PackageInstallMethod = 'current' | 'local' | 'range' | 'full';
 
+export interface IPackageInstallStep {
 	/**
-	 * Package file.
-	 *
-	 * @returns The path.
+	 * Package extracted.
 	 */
-	public get packageFile() {
-		return PACKAGE_FILE;
-	}
+	package: Package;
 
 	/**
-	 * Meta directory.
-	 *
-	 * @returns The directory.
+	 * Slice to read before decompressing, null if read by the range.
 	 */
-	public get metaDir() {
-		return META_DIR;
-	}
+	slice: [number, number] | null;
 
 	/**
-	 * Packages loaded.
-	 *
-	 * @returns Is loaded.
+	 * Compression method to decompress, 0 if stored.
 	 */
-	public get loaded() {
-		return this._packages.loaded;
-	}
+	compression: number;
+}
 
+export interface IPackageInstallPlan {
 	/**
-	 * Assert instance all loaded, including the packages list.
-	 * Implies all active assertions.
+	 * Package to install.
 	 */
-	public assertLoaded() {
-		if (!this.loaded) {
-			throw new Error('Packages list not loaded');
-		}
-	}
+	package: Package;
 
 	/**
-	 * Ensure load if exists.
+	 * Install method.
+	 * Current if already installed.
+	 * Local if reading from an installed parent package.
+	 * Range if downloading part of the root package.
+	 * Full if downloading the whole root package.
 	 */
-	public async ensureLoad() {
-		if (!this.loaded) {
-			await this.load();
-		}
-	}
+	method: PackageInstallMethod;
 
 	/**
-	 * Ensure loaded.
+	 * List of packages from the source to the package, empty if current.
 	 */
-	public async ensureLoaded() {
-		await this.ensureLoad();
-		this.assertLoaded();
-	}
+	packages: Package[];
 
 	/**
-	 * Load packages if exist.
+	 * Byte range to read from the source, start and size, null if whole.
 	 */
-	public async load() {
-		await this._packages.readIfExists();
-	}
+	range: [number, number] | null;
 
 	/**
-	 * Iterate over the packages.
-	 *
-	 * @yields Package object.
+	 * Steps to extract the package from the byte range.
 	 */
-	public async *packages() {
-		await this.ensureLoaded();
+	steps: IPackageInstallStep[];
 
-		for (const entry of this._packages.packages()) {
-			yield entry;
-		}
-	}
+	/**
+	 * Number of bytes to download, not counting resumed partial download.
+	 */
+	transfer: number;
+}
 
+export interface IPackagesCache {
 	/**
-	 * Get package by the unique name.
-	 *
-	 * @param name Package name.
-	 * @returns The package or null.
+	 * The URL the packages list was downloaded from.
 	 */
-	public async packageByName(name: string) {
-		await this.ensureLoaded();
+	url: string;
 
-		return this._packages.byName(name);
-	}
+	/**
+	 * ETag header, if any.
+	 */
+	etag: string | null;
 
 	/**
-	 * Get package by the sha256 hash.
-	 *
-	 * @param sha256 Package sha256.
-	 * @returns The package or null.
+	 * Last-Modified header, if any.
 	 */
-	public async packageBySha256(sha256: string) {
-		await this.ensureLoaded();
+	lastModified: string | null;
+}
 
-		return this._packages.bySha256(sha256);
-	}
+export interface IPackagesResponse {
+	/**
+	 * Packages list data.
+	 */
+	data: string;
 
 	/**
-	 * Get package by the sha1 hash.
-	 *
-	 * @param sha1 Package sha1.
-	 * @returns The package or null.
+	 * Cache validators for the data.
 	 */
-	public async packageBySha1(sha1: string) {
-		await this.ensureLoaded();
+	cache: IPackagesCache;
+}
 
-		return this._packages.bySha1(sha1);
-	}
+export interface IPackagesHistory {
+	/**
+	 * History entry ID.
+	 */
+	id: string;
 
 	/**
-	 * Get package by the md5 hash.
-	 *
-	 * @param md5 Package md5.
-	 * @returns The package or null.
+	 * Time the packages list was replaced, in milliseconds.
 	 */
-	public async packageByMd5(md5: string) {
-		await this.ensureLoaded();
+	time: number;
+}
 
-		return this._packages.byMd5(md5);
-	}
+export interface IPackagePin {
+	/**
+	 * Package name.
+	 */
+	name: string;
 
 	/**
-	 * Get package by the unique value.
-	 *
-	 * @param unique Package unique.
-	 * @returns The package or null.
+	 * Pinned SHA256 hash.
 	 */
-	public async packageByUnique(unique: string) {
-		await this.ensureLoaded();
+	sha256: string;
+}
 
-		return this._packages.byUnique(unique);
-	}
+export interface ILockfilePackage extends IPackagesListPackage {
+	/**
+	 * Parent packages, from the closest parent to the root package.
+	 */
+	parents: IPackagesListPackage[];
+}
 
+export interface ILockfile {
 	/**
-	 * Read package install receipt.
-	 *
-	 * @param pkg The package.
-	 * @returns Install receipt.
+	 * Format version.
+	 */
+	format: string;
+
+	/**
+	 * Locked packages.
+	 */
+	packages: ILockfilePackage[];
+}
+
+export interface IPackageSpan {
+	/**
+	 * Root package.
+	 */
+	root: Package;
+
+	/**
+	 * Start of the byte range in the root package.
+	 */
+	start: number;
+
+	/**
+	 * Size of the byte range.
+	 */
+	size: number;
+
+	/**
+	 * Packages inside the byte range.
+	 */
+	packages: Package[];
+
+	/**
+	 * File the byte range is downloaded to.
+	 */
+	file: string;
+
+	/**
+	 * The URL the byte range was downloaded from, once downloaded.
+	 */
+	url: string | null;
+}
+
+export type PackageSearchSort = 'list' | 'name' | 'size' | 'released';
+
+export interface IPackageSearchQuery {
+	/**
+	 * Name substring, glob pattern if containing * or ?, or regular expression.
+	 * Substring and glob matching are case-insensitive.
+	 */
+	name?: string | RegExp;
+
+	/**
+	 * Minimum file size.
+	 */
+	sizeMin?: number;
+
+	/**
+	 * Maximum file size.
+	 */
+	sizeMax?: number;
+
+	/**
+	 * Only root packages if true, only child packages if false.
+	 */
+	root?: boolean;
+
+	/**
+	 * Parent package name.
+	 */
+	parent?: string;
+
+	/**
+	 * Title substring, case-insensitive.
+	 */
+	title?: string;
+
+	/**
+	 * Version string.
+	 */
+	version?: string;
+
+	/**
+	 * Platform.
+	 */
+	platform?: string;
+
+	/**
+	 * Architecture.
+	 */
+	arch?: string;
+
+	/**
+	 * Tags, all of which must be present.
+	 */
+	tags?: string[];
+
+	/**
+	 * Minimum release date, an ISO 8601 string.
+	 */
+	releasedMin?: string;
+
+	/**
+	 * Maximum release date, an ISO 8601 string.
+	 */
+	releasedMax?: string;
+
+	/**
+	 * Sort by, defaults to the list order.
+	 */
+	sort?: PackageSearchSort;
+
+	/**
+	 * Reverse the sorted order.
+	 */
+	descending?: boolean;
+
+	/**
+	 * Number of results to skip.
+	 */
+	offset?: number;
+
+	/**
+	 * Maximum number of results.
+	 */
+	limit?: number;
+}
+
+export interface IPackageSearchResult {
+	/**
+	 * Packages in the requested page.
+	 */
+	packages: Package[];
+
+	/**
+	 * Total number of matching packages.
+	 */
+	total: number;
+}
+
+export interface IPackageRemovedObsolete {
+	/**
+	 * Package removed.
+	 */
+	package: string;
+
+	/**
+	 * Removed or already removed.
+	 */
+	removed: boolean;
+}
+
+/**
+ * Package manager.
+ */
+export class Manager {
+	/**
+	 * Root path.
+	 */
+	public readonly path: string;
+
+	/**
+	 * The default headers for HTTP requests.
+	 */
+	public headers: {[header: string]: string} = {
+		// eslint-disable-next-line @typescript-eslint/naming-convention
+		'User-Agent': `${NAME}/${VERSION}`
+	};
+
+	/**
+	 * A fetch-like interface requiring only a sebset of features.
+	 */
+	public fetch: IFetch | null =
+		typeof fetch === 'undefined' ? null : (fetch as unknown as IFetch);
+
+	/**
+	 * Offline mode, never fetch, defaults to environment variable.
+	 * Installs only from installed packages or file sources.
+	 */
+	public offline: boolean;
+
+	/**
+	 * Mirrors for the packages list and package sources, tried in order.
+	 * Base URLs mirror the host and path, rewrite rules replace a prefix.
+	 * The original URL is tried last.
+	 */
+	public mirrors: Mirror[] = [];
+
+	/**
+	 * Retry policy for HTTP requests.
+	 */
+	public retry: IRetryPolicy = {
+		attempts: 3,
+		delay: 1000,
+		delayMax: 30000,
+		factor: 2,
+		jitter: 0.5,
+		statuses: [408, 425, 429, 500, 502, 503, 504],
+		codes: [
+			'ECONNABORTED',
+			'ECONNREFUSED',
+			'ECONNRESET',
+			'EPIPE',
+			'ETIMEDOUT',
+			'EAI_AGAIN',
+			'ERR_TIMEOUT',
+			'UND_ERR_SOCKET',
+			'UND_ERR_CONNECT_TIMEOUT',
+			'UND_ERR_HEADERS_TIMEOUT',
+			'UND_ERR_BODY_TIMEOUT'
+		]
+	};
+
+	/**
+	 * Timeouts for HTTP requests.
+	 */
+	public timeout: ITimeoutPolicy = {
+		response: 60000,
+		idle: 60000
+	};
+
+	/**
+	 * Packages list signature verification.
+	 * Signatures are downloaded from the packages list URL with .sig added.
+	 */
+	public signature: ISignaturePolicy = {
+		keys: [],
+		required: false
+	};
+
+	/**
+	 * Maximum number of packages to install at once when upgrading.
+	 */
+	public concurrency = 4;
+
+	/**
+	 * Maximum gap in bytes between packages in the same root package,
+	 * to download them in one request when installing many packages.
+	 */
+	public coalesce = 1024 * 1024;
+
+	/**
+	 * Number of replaced packages lists to keep in history, 0 to disable.
+	 */
+	public history = 10;
+
+	/**
+	 * Content-addressed cache of installed files, shareable between paths.
+	 * Files are hard linked if possible, else copied.
+	 */
+	public cache: ICachePolicy = {
+		path: null,
+		size: 0
+	};
+
+	/**
+	 * Additional registries, merged after the packages list in this order.
+	 * A name listed with a different hash is a conflict error.
+	 */
+	public registries: IRegistry[] = [];
+
+	/**
+	 * Request retry events.
+	 */
+	public readonly eventRequestRetry = new Dispatcher<IRequestRetry>(this);
+
+	/**
+	 * Package install before events.
+	 */
+	public readonly eventPackageInstallBefore =
+		new Dispatcher<IPackageInstallBefore>(this);
+
+	/**
+	 * Package install after events.
+	 */
+	public readonly eventPackageInstallAfter =
+		new Dispatcher<IPackageInstallAfter>(this);
+
+	/**
+	 * Package install current events.
+	 */
+	public readonly eventPackageInstallCurrent =
+		new Dispatcher<IPackageInstallCurrent>(this);
+
+	/**
+	 * Package download before events.
+	 */
+	public readonly eventPackageDownloadBefore =
+		new Dispatcher<IPackageDownloadBefore>(this);
+
+	/**
+	 * Package download after events.
+	 */
+	public readonly eventPackageDownloadAfter =
+		new Dispatcher<IPackageDownloadAfter>(this);
+
+	/**
+	 * Package download progress events.
+	 */
+	public readonly eventPackageDownloadProgress =
+		new Dispatcher<IPackageDownloadProgress>(this);
+
+	/**
+	 * Package cleanup before events.
+	 */
+	public readonly eventPackageCleanupBefore =
+		new Dispatcher<IPackageCleanupBefore>(this);
+
+	/**
+	 * Package cleanup after events.
+	 */
+	public readonly eventPackageCleanupAfter =
+		new Dispatcher<IPackageCleanupAfter>(this);
+
+	/**
+	 * Package remove required events, when removing a required package.
+	 */
+	public readonly eventPackageRemoveRequired =
+		new Dispatcher<IPackageRemoveRequired>(this);
+
+	/**
+	 * Packages instance.
+	 */
+	protected readonly _packages: Packages;
+
+	/**
+	 * Manager constructor.
+	 *
+	 * @param path The path, defaults to environment variable or relative.
+	 */
+	constructor(path: string | null = null) {
+		this.path = this._createPath(path);
+		this.offline = this._createOffline();
+		this._packages = this._createPackages();
+	}
+
+	/**
+	 * Packages URL.
+	 *
+	 * @returns The URL.
+	 */
+	public get packagesUrl() {
+		// eslint-disable-next-line no-process-env
+		return process.env[PACKAGES_URL_ENV] || PACKAGES_URL;
+	}
+
+	/**
+	 * Packages file.
+	 *
+	 * @returns The file.
+	 */
+	public get packagesFile() {
+		return PACKAGES_FILE;
+	}
+
+	/**
+	 * Packages cache file.
+	 *
+	 * @returns The file.
+	 */
+	public get packagesCacheFile() {
+		return PACKAGES_CACHE_FILE;
+	}
+
+	/**
+	 * Packages history directory.
+	 *
+	 * @returns The directory.
+	 */
+	public get packagesHistoryDir() {
+		return PACKAGES_HISTORY_DIR;
+	}
+
+	/**
+	 * Packages overlay file, merged after the registries.
+	 *
+	 * @returns The file.
+	 */
+	public get packagesOverlayFile() {
+		return PACKAGES_OVERLAY_FILE;
+	}
+
+	/**
+	 * Registries packages lists directory.
+	 *
+	 * @returns The directory.
+	 */
+	public get registriesDir() {
+		return REGISTRIES_DIR;
+	}
+
+	/**
+	 * Pins file.
+	 *
+	 * @returns The file.
+	 */
+	public get pinsFile() {
+		return PINS_FILE;
+	}
+
+	/**
+	 * Package file.
+	 *
+	 * @returns The path.
+	 */
+	public get packageFile() {
+		return PACKAGE_FILE;
+	}
+
+	/**
+	 * Meta directory.
+	 *
+	 * @returns The directory.
+	 */
+	public get metaDir() {
+		return META_DIR;
+	}
+
+	/**
+	 * Lock policy for package installs and packages list writes.
+	 *
+	 * @returns The policy.
+	 */
+	public get lockPolicy(): ILockPolicy {
+		return this._packages.lock;
+	}
+
+	/**
+	 * Lock policy for package installs and packages list writes.
+	 *
+	 * @param policy The policy.
+	 */
+	public set lockPolicy(policy: ILockPolicy) {
+		this._packages.lock = policy;
+	}
+
+	/**
+	 * Packages loaded.
+	 *
+	 * @returns Is loaded.
+	 */
+	public get loaded() {
+		return this._packages.loaded;
+	}
+
+	/**
+	 * Assert instance all loaded, including the packages list.
+	 * Implies all active assertions.
+	 */
+	public assertLoaded() {
+		if (!this.loaded) {
+			throw new PackagesNotLoadedError();
+		}
+	}
+
+	/**
+	 * Ensure load if exists.
+	 */
+	public async ensureLoad() {
+		if (!this.loaded) {
+			await this.load();
+		}
+	}
+
+	/**
+	 * Ensure loaded.
+	 */
+	public async ensureLoaded() {
+		await this.ensureLoad();
+		this.assertLoaded();
+	}
+
+	/**
+	 * Load packages if exist.
+	 */
+	public async load() {
+		this._packages.merge(
+			await this._overlayMerge(await this._registriesRead())
+		);
+		await this._packages.readIfExists();
+	}
+
+	/**
+	 * Iterate over the packages.
+	 *
+	 * @yields Package object.
+	 */
+	public async *packages() {
+		await this.ensureLoaded();
+
+		for (const entry of this._packages.packages()) {
+			yield entry;
+		}
+	}
+
+	/**
+	 * Get package by the unique name.
+	 *
+	 * @param name Package name.
+	 * @returns The package or null.
+	 */
+	public async packageByName(name: string) {
+		await this.ensureLoaded();
+
+		return this._packages.byName(name);
+	}
+
+	/**
+	 * Get package by the sha256 hash.
+	 *
+	 * @param sha256 Package sha256.
+	 * @returns The package or null.
+	 */
+	public async packageBySha256(sha256: string) {
+		await this.ensureLoaded();
+
+		return this._packages.bySha256(sha256);
+	}
+
+	/**
+	 * Get package by the sha1 hash.
+	 *
+	 * @param sha1 Package sha1.
+	 * @returns The package or null.
+	 */
+	public async packageBySha1(sha1: string) {
+		await this.ensureLoaded();
+
+		return this._packages.bySha1(sha1);
+	}
+
+	/**
+	 * Get package by the md5 hash.
+	 *
+	 * @param md5 Package md5.
+	 * @returns The package or null.
+	 */
+	public async packageByMd5(md5: string) {
+		await this.ensureLoaded();
+
+		return this._packages.byMd5(md5);
+	}
+
+	/**
+	 * Get package by the unique value.
+	 *
+	 * @param unique Package unique.
+	 * @returns The package or null.
+	 */
+	public async packageByUnique(unique: string) {
+		await this.ensureLoaded();
+
+		return this._packages.byUnique(unique);
+	}
+
+	/**
+	 * Search packages, sorted and paginated.
+	 * Packages without a metadata field never match a filter on that field.
+	 *
+	 * @param query Search query.
+	 * @returns Search result.
+	 */
+	public async search(
+		query: Readonly<IPackageSearchQuery> = {}
+	): Promise<IPackageSearchResult> {
+		await this.ensureLoaded();
+
+		const name = this._searchPattern(query.name ?? null);
+		const matches = [];
+		for (const pkg of this._packages.packages()) {
+			if (
+				(!name || name.test(pkg.name)) &&
+				this._searchMatch(pkg, query)
+			) {
+				matches.push(pkg);
+			}
+		}
+
+		const {sort = 'list', descending = false} = query;
+		if (sort !== 'list') {
+			matches.sort((a, b) => this._searchCompare(a, b, sort));
+		}
+		if (descending) {
+			matches.reverse();
+		}
+
+		const {offset = 0, limit = Infinity} = query;
+		return {
+			packages: matches.slice(offset, offset + limit),
+			total: matches.length
+		};
+	}
+
+	/**
+	 * Read package install receipt.
+	 *
+	 * @param pkg The package.
+	 * @returns Install receipt.
 	 */
 	public async receipt(pkg: PackageLike) {
+		const name = await this._asName(pkg);
+		const pkgf = await this.pathToPackageMeta(pkg, this.packageFile);
+
+		const r = await readFile(pkgf, 'utf8')
+			.then(s => JSON.parse(s) as IPackageReceipt)
+			.catch(() => null);
+		if (!r) {
+			throw new PackageNotInstalledError(
+				`Package is not installed: ${name}`,
+				name
+			);
+		}
+		return r;
+	}
+
+	/**
+	 * Get package install file.
+	 *
+	 * @param pkg The package.
+	 * @returns Path to install file.
+	 */
+	public async file(pkg: PackageLike) {
+		pkg = await this._asPackage(pkg);
+
+		const data = await this.receipt(pkg);
+		return this.pathToPackage(pkg, data.file);
+	}
+
+	/**
+	 * Verify package install file, using size and hash.
+	 *
+	 * @param pkg The package.
+	 */
+	public async packageInstallVerify(pkg: PackageLike) {
+		pkg = await this._asPackage(pkg);
+
+		const data = await this.receipt(pkg);
+		const {sha256, file, size} = data;
+		const filePath = await this.pathToPackage(pkg, file);
+
+		const stat = await lstat(filePath);
+		const fSize = stat.size;
+		if (fSize !== size) {
+			throw new SizeMismatchError(
+				`Invalid file size: ${fSize}`,
+				size,
+				fSize,
+				data.name
+			);
+		}
+
+		const stream = createReadStream(filePath);
+		let hashsum = '';
+		const hash = createHash('sha256');
+		hash.setEncoding('hex');
+		hash.on('finish', () => {
+			hashsum = hash.read() as string;
+		});
+		await pipeline(stream, hash);
+
+		if (hashsum !== sha256) {
+			throw new HashMismatchError(
+				`Invalid sha256 hash: ${hashsum}`,
+				'sha256',
+				sha256,
+				hashsum,
+				data.name
+			);
+		}
+	}
+
+	/**
+	 * Update the package manager installed data.
+	 * Updates the packages list and the registries packages lists.
+	 * If the packages lists are unchanged, returns an empty report.
+	 * Fails in offline mode.
+	 *
+	 * @param signal Abort signal.
+	 * @returns Update report.
+	 */
+	public async update(signal: AbortSignal | null = null) {
+		if (this.offline) {
+			throw new OfflineError('Offline mode, cannot update packages list');
+		}
+
+		// Try to determined what gets updated.
+		try {
+			await this.ensureLoad();
+		} catch (err) {
+			// Ignore errors like outdated format version.
+		}
+
+		// Only request changes if a list is loaded.
+		const cache = this._packages.loaded
+			? await this._packagesCacheRead()
+			: null;
+
+		// Read data, update list, write list to file, return report.
+		const response = await this._requestPackages(signal, cache);
+		const registries = await this._registriesRequest(signal);
+		const merged = await this._overlayMerge(new Map(registries));
+		if (!response) {
+			const report = this._packages.merge(merged);
+			await this._registriesWrite(registries);
+			return report;
+		}
+
+		await this._packagesHistoryAdd();
+		const report = this._packages.update(response.data, merged);
+		await this._packages.write();
+		await this._packagesCacheWrite(response.cache);
+		await this._registriesWrite(registries);
+		return report;
+	}
+
+	/**
+	 * List the packages lists history, newest first.
+	 *
+	 * @returns History entries.
+	 */
+	public async listHistory() {
+		const dir = this.pathToMeta(this.packagesHistoryDir);
+		const list: IPackagesHistory[] = [];
+		for (const entry of (await readdir(dir).catch(() => [])).sort()) {
+			const m = entry.match(/^((\d+)-[\da-f]+)\.json$/);
+			if (m) {
+				list.push({
+					id: m[1],
+					time: +m[2]
+				});
+			}
+		}
+		return list.reverse();
+	}
+
+	/**
+	 * Rollback the packages list to a list from history.
+	 * The current packages list is added to history.
+	 *
+	 * @param id History entry ID.
+	 * @returns Update report.
+	 */
+	public async rollbackPackages(id: string) {
+		if (!(await this.listHistory()).some(e => e.id === id)) {
+			throw new HistoryUnknownError(
+				`Unknown packages history: ${id}`,
+				id
+			);
+		}
+		const data = await readFile(
+			this.pathToMeta(this.packagesHistoryDir, `${id}.json`),
+			'utf8'
+		);
+
+		// Try to determined what gets updated.
+		try {
+			await this.ensureLoad();
+		} catch (err) {
+			// Ignore errors like outdated format version.
+		}
+
+		await this._packagesHistoryAdd();
+		const report = this._packages.update(data);
+		await this._packages.write();
+
+		// The cache validators are not for this list.
+		await rm(this.pathToMeta(this.packagesCacheFile), {force: true});
+		return report;
+	}
+
+	/**
+	 * Check if a package is installed.
+	 *
+	 * @param pkg The package.
+	 * @returns True if already installed, else false.
+	 */
+	public async isInstalled(pkg: PackageLike) {
+		pkg = await this._asPackage(pkg);
+
+		try {
+			await this.receipt(pkg);
+		} catch (err) {
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Check if a package is installed and up-to-date.
+	 *
+	 * @param pkg The package.
+	 * @returns True if already up-to-date, else false.
+	 */
+	public async isCurrent(pkg: PackageLike) {
+		pkg = await this._asPackage(pkg);
+
+		let data: IPackageReceipt | null = null;
+		try {
+			data = await this.receipt(pkg);
+		} catch (err) {
+			return false;
+		}
+		return !!(
+			data.sha256 === pkg.sha256 &&
+			data.size === pkg.size &&
+			data.file === pkg.file &&
+			data.name === pkg.name
+		);
+	}
+
+	/**
+	 * List all installed packages.
+	 *
+	 * @returns A list of installed package objects.
+	 */
+	public async installed() {
+		await this.ensureLoaded();
+
+		const list: Package[] = [];
+		for (const entry of await this._packageDirectories()) {
+			// eslint-disable-next-line no-await-in-loop
+			const pkg = await this.packageByName(entry);
+			// eslint-disable-next-line no-await-in-loop
+			if (pkg && (await this.isInstalled(pkg))) {
+				list.push(pkg);
+			}
+		}
+		return list;
+	}
+
+	/**
+	 * List all outdated packages.
+	 *
+	 * @returns The list of outdated package objects.
+	 */
+	public async outdated() {
+		await this.ensureLoaded();
+
+		const pins = await this._pinsRead();
+		const list: Package[] = [];
+		for (const entry of await this._packageDirectories()) {
+			// eslint-disable-next-line no-await-in-loop
+			const pkg = await this.packageByName(entry);
+			if (!pkg) {
+				continue;
+			}
+
+			// A pinned package is current if the pinned version is installed.
+			const pin = pins.get(pkg.name);
+			// eslint-disable-next-line no-await-in-loop
+			const current = await (pin
+				? this.receipt(pkg).then(
+						r => r.sha256 === pin,
+						() => false
+					)
+				: this.isCurrent(pkg));
+			if (!current) {
+				list.push(pkg);
+			}
+		}
+		return list;
+	}
+
+	/**
+	 * Upgrade any outdated packages.
+	 *
+	 * @param signal Abort signal.
+	 * @returns List of packages upgraded.
+	 */
+	public async upgrade(signal: AbortSignal | null = null) {
+		await this.ensureLoaded();
+
+		const outdated = await this.outdated();
+		const list: IPackageInstalled[] = outdated.map(pkg => ({
+			package: pkg,
+			install: [],
+			error: null
+		}));
+		await this._concurrent(list, async entry => {
+			try {
+				entry.install = await this.install(entry.package, signal);
+			} catch (err) {
+				signal?.throwIfAborted();
+				entry.error = err as Error;
+			}
+		});
+		return list;
+	}
+
+	/**
+	 * Plan package install, without making any changes.
+	 * Plans the pinned version if pinned, like install.
+	 *
+	 * @param pkg The package.
+	 * @returns Install plan.
+	 */
+	public async plan(pkg: PackageLike): Promise<IPackageInstallPlan> {
+		await this.ensureLoaded();
+		return this._packagePlan(
+			await this._packagePinned(await this._asPackage(pkg))
+		);
+	}
+
+	/**
+	 * Install package, and any required packages first.
+	 * Returns the list of packages processed to install.
+	 * Returns empty array if current version is already installed.
+	 * If aborted, rejects with the abort reason and removes temporary files.
+	 *
+	 * @param pkg The package.
+	 * @param signal Abort signal.
+	 * @returns List of packages processed to complete the install.
+	 */
+	public async install(pkg: PackageLike, signal: AbortSignal | null = null) {
+		signal?.throwIfAborted();
+		await this.ensureLoaded();
+		pkg = await this._packagePinned(await this._asPackage(pkg));
+
+		const list: Package[] = [];
+		for (const p of await this._packageRequires(pkg)) {
+			// Lock the package, waiting for any other install to finish.
+			// eslint-disable-next-line no-await-in-loop
+			const lock = await this._packageLock(p);
+			// eslint-disable-next-line no-await-in-loop
+			await lock.acquire(signal);
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				list.push(...(await this._packageInstall(p, signal)));
+			} finally {
+				// eslint-disable-next-line no-await-in-loop
+				await lock.release();
+			}
+		}
+		return list;
+	}
+
+	/**
+	 * Install many packages, and any required packages first.
+	 * Packages in the same root package are downloaded together,
+	 * when the gaps between them are not larger than coalesce.
+	 * Errors are set on the returned list, except if aborted.
+	 * Packages requiring a package that failed are not installed.
+	 *
+	 * @param pkgs The packages.
+	 * @param signal Abort signal.
+	 * @returns List of packages installed.
+	 */
+	public async installMany(
+		pkgs: PackageLike[],
+		signal: AbortSignal | null = null
+	) {
+		signal?.throwIfAborted();
+		await this.ensureLoaded();
+
+		const packages: Package[] = [];
+		for (const p of pkgs) {
+			// eslint-disable-next-line no-await-in-loop
+			packages.push(await this._packagePinned(await this._asPackage(p)));
+		}
+		return this._packageInstallRequires(packages, signal);
+	}
+
+	/**
+	 * Pin package to a version by SHA256 hash.
+	 * Defaults to the installed version, else the listed version.
+	 * Pinned versions not listed are installed from packages list history.
+	 *
+	 * @param pkg The package.
+	 * @param sha256 The SHA256 hash, or null for the default.
+	 * @returns The pinned SHA256 hash.
+	 */
+	public async pin(pkg: PackageLike, sha256: string | null = null) {
+		await this.ensureLoaded();
+		const name = await this._asName(pkg);
+
+		let hash = sha256;
+		if (!hash) {
+			const receipt = await this.receipt(name).catch(() => null);
+			hash = receipt
+				? receipt.sha256
+				: (await this._asPackage(pkg)).sha256;
+		}
+		if (!/^[\da-f]{64}$/.test(hash)) {
+			throw new HashInvalidError(
+				`Invalid sha256 hash: ${hash}`,
+				'sha256',
+				hash
+			);
+		}
+
+		const pins = await this._pinsRead();
+		pins.set(name, hash);
+		await this._pinsWrite(pins);
+		return hash;
+	}
+
+	/**
+	 * Unpin package.
+	 *
+	 * @param pkg The package.
+	 * @returns True if unpinned, false if was not pinned.
+	 */
+	public async unpin(pkg: PackageLike) {
+		await this.ensureLoaded();
+		const name = await this._asName(pkg);
+
+		const pins = await this._pinsRead();
+		if (!pins.delete(name)) {
+			return false;
+		}
+		await this._pinsWrite(pins);
+		return true;
+	}
+
+	/**
+	 * List pinned packages.
+	 *
+	 * @returns List of pins.
+	 */
+	public async listPins() {
+		const list: IPackagePin[] = [];
+		for (const [name, sha256] of await this._pinsRead()) {
+			list.push({
+				name,
+				sha256
+			});
+		}
+		return list;
+	}
+
+	/**
+	 * Write a lockfile with the exact versions of packages.
+	 * Includes the parent packages needed to install them,
+	 * and any required packages before the packages requiring them.
+	 *
+	 * @param pkgs The packages.
+	 * @param path The lockfile path.
+	 * @returns The lockfile data.
+	 */
+	public async lock(pkgs: PackageLike[], path: string) {
+		await this.ensureLoaded();
+
+		const packages = new Map<string, Package>();
+		for (const p of pkgs) {
+			// eslint-disable-next-line no-await-in-loop
+			const pkg = await this._packagePinned(await this._asPackage(p));
+			// eslint-disable-next-line no-await-in-loop
+			for (const r of await this._packageRequires(pkg)) {
+				if (!packages.has(r.name)) {
+					packages.set(r.name, r);
+				}
+			}
+		}
+
+		const lockfile: ILockfile = {
+			format: LOCKFILE_FORMAT,
+			packages: []
+		};
+		for (const pkg of packages.values()) {
+			const parents: IPackagesListPackage[] = [];
+			for (let q = pkg.parent; q; q = q.parent) {
+				parents.push(this._packageListInfo(q));
+			}
+			const info: ILockfilePackage = {
+				...this._packageListInfo(pkg),
+				parents
+			};
+			if (pkg.requires.length) {
+				info.requires = [...pkg.requires];
+			}
+			lockfile.packages.push(info);
+		}
+		await writeFile(path, JSON.stringify(lockfile, null, '\t'));
+		return lockfile;
+	}
+
+	/**
+	 * Install the exact packages from a lockfile.
+	 * The packages do not need to be in the packages list.
+	 * Rejects with the first error after attempting every package.
+	 *
+	 * @param path The lockfile path.
+	 * @param signal Abort signal.
+	 * @returns List of packages installed.
+	 */
+	public async installFromLock(
+		path: string,
+		signal: AbortSignal | null = null
+	) {
+		signal?.throwIfAborted();
+
+		const lockfile = this._castLockfile(
+			JSON.parse(await readFile(path, 'utf8'))
+		);
+		const [major] = lockfile.format.split('.');
+		if (major !== LOCKFILE_FORMAT.split('.')[0]) {
+			throw new FormatVersionError(
+				`Invalid lockfile format: ${lockfile.format}`,
+				lockfile.format
+			);
+		}
+
+		const packages = lockfile.packages.map(p =>
+			this._packageFromLockfile(p)
+		);
+		const list = await this._packageInstallRequires(
+			packages,
+			signal,
+			new Map(packages.map(p => [p.name, p]))
+		);
+		for (const {error} of list) {
+			if (error) {
+				throw error;
+			}
+		}
+		return list;
+	}
+
+	/**
+	 * Remove package.
+	 * Refuses to remove a package required by another installed package,
+	 * unless forced, which triggers a remove required event instead.
+	 *
+	 * @param pkg The package.
+	 * @param force Remove even if required.
+	 * @returns True if removed, false if nothing to remove.
+	 */
+	public async remove(pkg: PackageLike, force = false) {
+		await this.ensureLoaded();
+
+		const name = await this._asName(pkg);
+		const requiredBy = (await this.installed()).filter(
+			p => p.name !== name && p.requires.includes(name)
+		);
+		if (requiredBy.length) {
+			if (!force) {
+				const names = requiredBy.map(p => p.name);
+				throw new PackageRequiredError(
+					`Package is required: ${name}: ${names.join(', ')}`,
+					name,
+					names
+				);
+			}
+			this.eventPackageRemoveRequired.trigger({
+				package: name,
+				requiredBy
+			});
+		}
+
+		const lock = await this._packageLock(pkg);
+		await lock.acquire();
+		try {
+			const dir = await this.pathToPackage(pkg);
+			const stat = await lstat(dir).catch(() => null);
+			if (!stat) {
+				return false;
+			}
+			const dirMeta = await this.pathToPackageMeta(pkg);
+
+			// Remove meta directory first, avoid partial installed state.
+			await rm(dirMeta, {recursive: true, force: true});
+			await rm(dir, {recursive: true, force: true});
+		} finally {
+			await lock.release();
+		}
+		return true;
+	}
+
+	/**
+	 * Check if package name is obsolete.
+	 *
+	 * @param pkg The package.
+	 * @returns True if package obslete, else false.
+	 */
+	public async isObsolete(pkg: string) {
+		await this.ensureLoaded();
+
+		return (
+			!pkg.startsWith('.') &&
+			!(await this.packageByName(pkg)) &&
+			access(await this.pathToPackageMeta(pkg)).then(
+				() => true,
+				() => false
+			)
+		);
+	}
+
+	/**
+	 * List obsolete package names.
+	 *
+	 * @returns A list of obsolete package names.
+	 */
+	public async obsolete() {
+		await this.ensureLoaded();
+
+		const list: string[] = [];
+		for (const entry of await this._packageDirectories()) {
+			// eslint-disable-next-line no-await-in-loop
+			if (await this.isObsolete(entry)) {
+				list.push(entry);
+			}
+		}
+		return list;
+	}
+
+	/**
+	 * Cleanup all obsolete and outdated packages.
+	 *
+	 * @returns Lists of removed packages.
+	 */
+	public async cleanup() {
 		await this.ensureLoaded();
 
-		const name = await this._asName(pkg);
-		const pkgf = await this.pathToPackageMeta(name, this.packageFile);
+		const list: IPackageRemovedObsolete[] = [];
+		for (const pkg of await this._packageDirectories()) {
+			// Remove any temporary directory if present, unless installing.
+			// eslint-disable-next-line no-await-in-loop
+			const tmpDir = await this.pathToPackageMeta(pkg, TEMP_DIR);
+			// eslint-disable-next-line no-await-in-loop
+			const lock = await this._packageLock(pkg);
+			// eslint-disable-next-line no-await-in-loop
+			await lock.acquire();
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await rm(tmpDir, {recursive: true, force: true});
+			} finally {
+				// eslint-disable-next-line no-await-in-loop
+				await lock.release();
+			}
 
-		const r = await readFile(pkgf, 'utf8')
-			.then(s => JSON.parse(s) as IPackageReceipt)
-			.catch(() => null);
-		if (!r) {
-			throw new Error(`Package is not installed: ${name}`);
+			// eslint-disable-next-line no-await-in-loop
+			if (await this.isObsolete(pkg)) {
+				this.eventPackageCleanupBefore.trigger({
+					package: pkg
+				});
+
+				// eslint-disable-next-line no-await-in-loop
+				const removed = await this.remove(pkg, true);
+
+				this.eventPackageCleanupAfter.trigger({
+					package: pkg,
+					removed
+				});
+				list.push({
+					package: pkg,
+					removed
+				});
+			}
 		}
-		return r;
+		return list;
 	}
 
 	/**
-	 * Get package install file.
+	 * Join path on the base path.
 	 *
-	 * @param pkg The package.
-	 * @returns Path to install file.
+	 * @param parts Path parts.
+	 * @returns Joined path.
 	 */
-	public async file(pkg: PackageLike) {
-		await this.ensureLoaded();
-		pkg = await this._asPackage(pkg);
+	public pathTo(...parts: string[]) {
+		return pathJoin(this.path, ...parts);
+	}
 
-		const data = await this.receipt(pkg);
-		return this.pathToPackage(pkg, data.file);
+	/**
+	 * Join path on the meta path.
+	 *
+	 * @param parts Path parts.
+	 * @returns Joined path.
+	 */
+	public pathToMeta(...parts: string[]) {
+		return this.pathTo(this.metaDir, ...parts);
 	}
 
 	/**
-	 * Verify package install file, using size and hash.
+	 * Join path on package base path.
 	 *
 	 * @param pkg The package.
+	 * @param parts Path parts.
+	 * @returns Joined path.
 	 */
-	public async packageInstallVerify(pkg: PackageLike) {
-		await this.ensureLoaded();
-		pkg = await this._asPackage(pkg);
+	public async pathToPackage(pkg: PackageLike, ...parts: string[]) {
+		return this.pathTo(await this._asName(pkg), ...parts);
+	}
 
-		const data = await this.receipt(pkg);
-		const {sha256, file, size} = data;
-		const filePath = await this.pathToPackage(pkg, file);
+	/**
+	 * Join path on package meta path.
+	 *
+	 * @param pkg The package.
+	 * @param parts Path parts.
+	 * @returns Joined path.
+	 */
+	public async pathToPackageMeta(pkg: PackageLike, ...parts: string[]) {
+		return this.pathTo(await this._asName(pkg), this.metaDir, ...parts);
+	}
 
-		const stat = await lstat(filePath);
-		const fSize = stat.size;
-		if (fSize !== size) {
-			throw new Error(`Invalid file size: ${fSize}`);
+	/**
+	 * Get package object by object, name, or hash.
+	 * Throw error if package is unknown.
+	 * The packages list is only required to find a package by name or hash.
+	 *
+	 * @param pkg The package.
+	 * @returns Package object.
+	 */
+	protected async _asPackage(pkg: PackageLike) {
+		if (typeof pkg === 'string') {
+			await this.ensureLoaded();
+			const p = await this.packageByUnique(pkg);
+			if (!p) {
+				throw new PackageUnknownError(`Unknown package: ${pkg}`, pkg);
+			}
+			return p;
 		}
+		return pkg;
+	}
 
-		const stream = createReadStream(filePath);
-		let hashsum = '';
-		const hash = createHash('sha256');
-		hash.setEncoding('hex');
-		hash.on('finish', () => {
-			hashsum = hash.read() as string;
-		});
-		await pipeline(stream, hash);
+	/**
+	 * Get package name by object, name, or hash.
+	 * If package object is passed, uses name from the object,
+	 * without requiring the packages list.
+	 * If string is passed and unknown, returns that same string.
+	 *
+	 * @param pkg The package.
+	 * @returns Package object.
+	 */
+	protected async _asName(pkg: PackageLike) {
+		if (typeof pkg !== 'string') {
+			return pkg.name;
+		}
+		await this.ensureLoaded();
 
-		if (hashsum !== sha256) {
-			throw new Error(`Invalid sha256 hash: ${hashsum}`);
+		return (await this.packageByUnique(pkg))?.name ?? pkg;
+	}
+
+	/**
+	 * Get package with all required packages, in install order.
+	 * Required packages come before the packages requiring them.
+	 *
+	 * @param pkg The package.
+	 * @param locked Packages to find required packages in, if not listed.
+	 * @returns Packages in install order, ending with the package.
+	 */
+	protected async _packageRequires(
+		pkg: Package,
+		locked: ReadonlyMap<string, Package> | null = null
+	) {
+		const list: Package[] = [];
+		const done = new Set<string>();
+		const stack: string[] = [];
+
+		/**
+		 * Visit package, after its required packages.
+		 *
+		 * @param p The package.
+		 */
+		const visit = async (p: Package) => {
+			if (done.has(p.name)) {
+				return;
+			}
+			const i = stack.indexOf(p.name);
+			if (i >= 0) {
+				const cycle = [...stack.slice(i), p.name];
+				throw new DependencyCycleError(
+					`Package requirements cycle: ${cycle.join(' -> ')}`,
+					cycle
+				);
+			}
+			stack.push(p.name);
+			for (const name of p.requires) {
+				// eslint-disable-next-line no-await-in-loop
+				await visit(await this._packageRequired(name, locked));
+			}
+			stack.pop();
+			done.add(p.name);
+			list.push(p);
+		};
+		await visit(pkg);
+		return list;
+	}
+
+	/**
+	 * Get a required package, the pinned version if pinned.
+	 *
+	 * @param name Package name.
+	 * @param locked Packages to find the package in, if not listed.
+	 * @returns The package.
+	 */
+	protected async _packageRequired(
+		name: string,
+		locked: ReadonlyMap<string, Package> | null
+	) {
+		if (!locked) {
+			return this._packagePinned(await this._asPackage(name));
+		}
+		const pkg = locked.get(name);
+		if (!pkg) {
+			throw new PackageUnknownError(`Unknown package: ${name}`, name);
 		}
+		return pkg;
 	}
 
 	/**
-	 * Update the package manager installed data.
-	 * Updates the packages list.
+	 * Create a name matching pattern for a search.
 	 *
-	 * @returns Update report.
+	 * @param name Name substring, glob pattern, or regular expression.
+	 * @returns Regular expression or null to match all.
 	 */
-	public async update() {
-		// Read data, update list, write list to file, return report.
-		const data = await this._requestPackages();
+	protected _searchPattern(name: string | RegExp | null) {
+		if (name === null) {
+			return null;
+		}
+		if (typeof name !== 'string') {
+			// Stateful flags would skip matches between packages.
+			return new RegExp(name.source, name.flags.replace(/[gy]/g, ''));
+		}
+		const escaped = name.replace(/[$()*+.?[\\\]^{|}]/g, '\\$&');
+		if (!/[*?]/.test(name)) {
+			return new RegExp(escaped, 'i');
+		}
+		const glob = escaped.replace(/\\\*/g, '.*').replace(/\\\?/g, '.');
+		return new RegExp(`^${glob}$`, 'i');
+	}
 
-		// Try to determined what gets updated.
-		try {
-			await this.ensureLoad();
-		} catch (err) {
-			// Ignore errors like outdated format version.
+	/**
+	 * Check if a package matches the search filters, except name.
+	 *
+	 * @param pkg The package.
+	 * @param query Search query.
+	 * @returns Package matches.
+	 */
+	protected _searchMatch(pkg: Package, query: Readonly<IPackageSearchQuery>) {
+		const {
+			sizeMin,
+			sizeMax,
+			root,
+			parent,
+			title,
+			version,
+			platform,
+			arch,
+			tags,
+			releasedMin,
+			releasedMax
+		} = query;
+		if (
+			(typeof sizeMin === 'number' && pkg.size < sizeMin) ||
+			(typeof sizeMax === 'number' && pkg.size > sizeMax) ||
+			(typeof root === 'boolean' && !pkg.parent !== root) ||
+			(typeof parent === 'string' && pkg.parent?.name !== parent) ||
+			(typeof version === 'string' && pkg.version !== version) ||
+			(typeof platform === 'string' && pkg.platform !== platform) ||
+			(typeof arch === 'string' && pkg.arch !== arch)
+		) {
+			return false;
+		}
+		if (
+			typeof title === 'string' &&
+			!pkg.title?.toLowerCase().includes(title.toLowerCase())
+		) {
+			return false;
+		}
+		if (tags && !tags.every(tag => pkg.tags?.includes(tag))) {
+			return false;
+		}
+		if (
+			typeof releasedMin === 'string' ||
+			typeof releasedMax === 'string'
+		) {
+			const released = pkg.released ? Date.parse(pkg.released) : NaN;
+			if (
+				Number.isNaN(released) ||
+				(typeof releasedMin === 'string' &&
+					released < Date.parse(releasedMin)) ||
+				(typeof releasedMax === 'string' &&
+					released > Date.parse(releasedMax))
+			) {
+				return false;
+			}
 		}
+		return true;
+	}
 
-		const report = this._packages.update(data);
-		await this._packages.write();
-		return report;
+	/**
+	 * Compare packages for sorting search results.
+	 * Packages without a release date sort first.
+	 *
+	 * @param a Package A.
+	 * @param b Package B.
+	 * @param sort Sort by.
+	 * @returns Comparison result.
+	 */
+	protected _searchCompare(a: Package, b: Package, sort: PackageSearchSort) {
+		switch (sort) {
+			case 'size': {
+				return a.size - b.size;
+			}
+			case 'released': {
+				const ra = a.released ? Date.parse(a.released) : -Infinity;
+				const rb = b.released ? Date.parse(b.released) : -Infinity;
+				if (ra !== rb) {
+					return ra < rb ? -1 : 1;
+				}
+				break;
+			}
+			default: {
+				// Do nothing.
+			}
+		}
+		return a.name.localeCompare(b.name);
 	}
 
 	/**
-	 * Check if a package is installed.
+	 * Write package installed receipt.
 	 *
 	 * @param pkg The package.
-	 * @returns True if already installed, else false.
+	 * @param url The URL the package was downloaded from, if downloaded.
 	 */
-	public async isInstalled(pkg: PackageLike) {
-		await this.ensureLoaded();
+	protected async _packageMetaReceiptWrite(
+		pkg: PackageLike,
+		url: string | null = null
+	) {
 		pkg = await this._asPackage(pkg);
 
-		try {
-			await this.receipt(pkg);
-		} catch (err) {
-			return false;
-		}
-		return true;
+		const pkgf = await this.pathToPackageMeta(pkg, this.packageFile);
+		const pkgfTmp = `${pkgf}${TEMP_EXT}`;
+
+		const receipt = await this._packageMetaReceiptFromPackage(pkg, url);
+		await rm(pkgfTmp, {force: true});
+		await writeFile(pkgfTmp, JSON.stringify(receipt, null, '\t'), {
+			flag: 'wx'
+		});
+		await rename(pkgfTmp, pkgf);
 	}
 
 	/**
-	 * Check if a package is installed and up-to-date.
+	 * Create package installed receipt object from a package.
 	 *
 	 * @param pkg The package.
-	 * @returns True if already up-to-date, else false.
+	 * @param url The URL the package was downloaded from, if downloaded.
+	 * @returns Receipt object.
 	 */
-	public async isCurrent(pkg: PackageLike) {
-		await this.ensureLoaded();
+	// eslint-disable-next-line @typescript-eslint/require-await
+	protected async _packageMetaReceiptFromPackage(
+		pkg: PackageLike,
+		url: string | null = null
+	) {
 		pkg = await this._asPackage(pkg);
 
-		let data: IPackageReceipt | null = null;
-		try {
-			data = await this.receipt(pkg);
-		} catch (err) {
-			return false;
+		const r: IPackageReceipt = {
+			name: pkg.name,
+			file: pkg.file,
+			size: pkg.size,
+			sha256: pkg.sha256,
+			source: pkg.source
+		};
+		if (url) {
+			r.url = url;
 		}
-		return !!(
-			data.sha256 === pkg.sha256 &&
-			data.size === pkg.size &&
-			data.file === pkg.file &&
-			data.name === pkg.name
-		);
+		return r;
 	}
 
 	/**
-	 * List all installed packages.
+	 * Plan package install, see plan.
 	 *
-	 * @returns A list of installed package objects.
+	 * @param pkg The package, already pinned if pinned.
+	 * @returns Install plan.
 	 */
-	public async installed() {
-		await this.ensureLoaded();
+	protected async _packagePlan(pkg: Package): Promise<IPackageInstallPlan> {
+		// If current version is installed, nothing to do.
+		if (await this.isCurrent(pkg)) {
+			return {
+				package: pkg,
+				method: 'current',
+				packages: [],
+				range: null,
+				steps: [],
+				transfer: 0
+			};
+		}
+
+		// Find the closest current installed parent, if any.
+		const packages: Package[] = [pkg];
+		let local = false;
+		for (let p = pkg.parent; p; p = p.parent) {
+			packages.push(p);
 
-		const list: Package[] = [];
-		for (const entry of await this._packageDirectories()) {
-			// eslint-disable-next-line no-await-in-loop
-			const pkg = await this.packageByName(entry);
 			// eslint-disable-next-line no-await-in-loop
-			if (pkg && (await this.isInstalled(pkg))) {
-				list.push(pkg);
+			if (await this.isCurrent(p)) {
+				local = true;
+				break;
 			}
 		}
-		return list;
+		packages.reverse();
+
+		// Find the lowest slice to read before compression.
+		// Then the steps to extract the package from that slice.
+		let range: [number, number] | null = null;
+		let i = 1;
+		for (; i < packages.length; i++) {
+			const p = packages[i];
+			const [ss, sl] = p.getZippedSlice();
+			range = range ? [range[0] + ss, sl] : [ss, sl];
+			if (p.getZippedCompression()) {
+				break;
+			}
+		}
+		const sliced = Math.min(i, packages.length - 1);
+		const steps: IPackageInstallStep[] = [];
+		for (let j = sliced; j && j < packages.length; j++) {
+			const p = packages[j];
+			steps.push({
+				package: p,
+				slice: j > sliced ? p.getZippedSlice() : null,
+				compression: p.getZippedCompression()
+			});
+		}
+
+		const [srcPkg] = packages;
+		let method: PackageInstallMethod = 'full';
+		let transfer = srcPkg.size;
+		if (local) {
+			method = 'local';
+			transfer = 0;
+		} else if (range) {
+			method = 'range';
+			[, transfer] = range;
+		}
+		return {
+			package: pkg,
+			method,
+			packages,
+			range,
+			steps,
+			transfer
+		};
 	}
 
 	/**
-	 * List all outdated packages.
+	 * Install many packages with any required packages, see installMany.
+	 * Installs in batches, each after the batches of its required packages.
 	 *
-	 * @returns The list of outdated package objects.
-	 */
-	public async outdated() {
-		await this.ensureLoaded();
-
-		const list: Package[] = [];
-		for (const entry of await this._packageDirectories()) {
+	 * @param packages The packages.
+	 * @param signal Abort signal.
+	 * @param locked Packages to find required packages in, if not listed.
+	 * @returns List of packages installed, required packages first.
+	 */
+	protected async _packageInstallRequires(
+		packages: Package[],
+		signal: AbortSignal | null,
+		locked: ReadonlyMap<string, Package> | null = null
+	) {
+		const all = new Map<string, Package>();
+		for (const pkg of packages) {
 			// eslint-disable-next-line no-await-in-loop
-			const pkg = await this.packageByName(entry);
+			for (const p of await this._packageRequires(pkg, locked)) {
+				if (!all.has(p.name)) {
+					all.set(p.name, p);
+				}
+			}
+		}
+
+		// Required packages are always added before, so already batched.
+		const batches: Package[][] = [];
+		const batched = new Map<string, number>();
+		for (const pkg of all.values()) {
+			let b = 0;
+			for (const name of pkg.requires) {
+				b = Math.max(b, (batched.get(name) ?? -1) + 1);
+			}
+			batched.set(pkg.name, b);
+			(batches[b] = batches[b] || []).push(pkg);
+		}
+
+		const entries = new Map<string, IPackageInstalled>();
+		for (const batch of batches) {
+			const ready: Package[] = [];
+			for (const pkg of batch) {
+				const failed = pkg.requires
+					.map(name => entries.get(name)?.error)
+					.find(e => e);
+				if (failed) {
+					entries.set(pkg.name, {
+						package: pkg,
+						install: [],
+						error: failed
+					});
+				} else {
+					ready.push(pkg);
+				}
+			}
 			// eslint-disable-next-line no-await-in-loop
-			if (pkg && !(await this.isCurrent(pkg))) {
-				list.push(pkg);
+			for (const entry of await this._packageInstallMany(ready, signal)) {
+				entries.set(entry.package.name, entry);
 			}
 		}
-		return list;
+		return [...all.keys()].map(
+			name => entries.get(name) as IPackageInstalled
+		);
 	}
 
 	/**
-	 * Upgrade any outdated packages.
+	 * Install many packages, see installMany.
 	 *
-	 * @returns List of packages upgraded.
-	 */
-	public async upgrade() {
-		await this.ensureLoaded();
-
-		const outdated = await this.outdated();
+	 * @param packages The packages.
+	 * @param signal Abort signal.
+	 * @returns List of packages installed.
+	 */
+	protected async _packageInstallMany(
+		packages: Package[],
+		signal: AbortSignal | null
+	) {
 		const list: IPackageInstalled[] = [];
-		for (const pkg of outdated) {
-			list.push({
-				package: pkg,
+		for (const pkg of packages) {
+			if (!list.some(e => e.package.name === pkg.name)) {
+				list.push({
+					package: pkg,
+					install: [],
+					error: null
+				});
+			}
+		}
+
+		/**
+		 * Install package, setting the result on the entry.
+		 *
+		 * @param entry List entry.
+		 * @param span Downloaded span, if any.
+		 */
+		const install = async (
+			entry: IPackageInstalled,
+			span: IPackageSpan | null
+		) => {
+			try {
+				entry.install = await this._packageInstall(
+					entry.package,
+					signal,
+					span
+				);
+			} catch (err) {
+				signal?.throwIfAborted();
+				entry.error = err as Error;
+			}
+		};
+
+		// Lock the packages and the roots of any spans up front,
+		// in the same order to avoid deadlocks.
+		const lockPackages = new Map<string, Package>();
+		for (const {package: pkg} of list) {
+			lockPackages.set(pkg.name, pkg);
+			let root = pkg;
+			while (root.parent) {
+				root = root.parent;
+			}
+			lockPackages.set(root.name, root);
+		}
+		const locks: Lock[] = [];
+		try {
+			for (const name of [...lockPackages.keys()].sort()) {
 				// eslint-disable-next-line no-await-in-loop
-				install: await this.install(pkg)
-			});
+				const lock = await this._packageLock(
+					lockPackages.get(name) as Package
+				);
+				// eslint-disable-next-line no-await-in-loop
+				await lock.acquire(signal);
+				locks.push(lock);
+			}
+
+			// Download each span once and install the packages from it.
+			// Offline, nothing is downloaded, install each package alone.
+			const spans = this.offline
+				? []
+				: await this._packageSpans(list.map(e => e.package));
+			for (const span of spans) {
+				const entries = list.filter(e =>
+					span.packages.includes(e.package)
+				);
+				try {
+					// eslint-disable-next-line no-await-in-loop
+					await this._mirrored(
+						span.root.source,
+						async url =>
+							this._retry(
+								async () =>
+									this._packageSpanDownload(
+										span,
+										url,
+										signal
+									),
+								url,
+								span.root,
+								signal
+							),
+						signal
+					);
+					for (const entry of entries) {
+						// eslint-disable-next-line no-await-in-loop
+						await install(entry, span);
+					}
+				} catch (err) {
+					signal?.throwIfAborted();
+					for (const entry of entries) {
+						entry.error = err as Error;
+					}
+				} finally {
+					// eslint-disable-next-line no-await-in-loop
+					await rm(span.file, {force: true});
+				}
+			}
+
+			// Install the rest, parents first so children can read from them.
+			const rest = list
+				.filter(e => !spans.some(s => s.packages.includes(e.package)))
+				.sort(
+					(a, b) =>
+						this._packageDepth(a.package) -
+						this._packageDepth(b.package)
+				);
+			for (const entry of rest) {
+				// eslint-disable-next-line no-await-in-loop
+				await install(entry, null);
+			}
+		} finally {
+			for (const lock of locks.reverse()) {
+				// eslint-disable-next-line no-await-in-loop
+				await lock.release();
+			}
 		}
 		return list;
 	}
 
 	/**
-	 * Install package.
-	 * Returns the list of packages processed to install.
-	 * Returns empty array if current version is already installed.
+	 * Install package, with the package already locked.
 	 *
 	 * @param pkg The package.
+	 * @param signal Abort signal.
+	 * @param span Downloaded span containing the package, if any.
 	 * @returns List of packages processed to complete the install.
 	 */
-	public async install(pkg: PackageLike) {
-		await this.ensureLoaded();
-		pkg = await this._asPackage(pkg);
-		const fetch = this._ensureFetch();
-
+	protected async _packageInstall(
+		pkg: Package,
+		signal: AbortSignal | null,
+		span: IPackageSpan | null = null
+	) {
 		// If current version is installed, skip.
-		const installed = await this.isCurrent(pkg);
-		if (installed) {
+		const plan = await this._packagePlan(pkg);
+		const {method, packages} = plan;
+		if (method === 'current') {
 			this.eventPackageInstallCurrent.trigger({
 				package: pkg
 			});
 			return [];
 		}
 
-		// Find the closest current installed parent, if any.
-		const packages: Package[] = [pkg];
-		for (let p = pkg.parent; p; p = p.parent) {
-			packages.push(p);
+		// Install from the shared cache if available.
+		if (await this._cacheGet(pkg)) {
+			this.eventPackageInstallBefore.trigger({
+				package: pkg
+			});
+			this.eventPackageInstallAfter.trigger({
+				package: pkg
+			});
+			return [pkg];
 		}
-		packages.reverse();
-		const [srcPkg] = packages;
 
-		// Find the lowest slice to read before compression.
-		// Build transforms to pipe the source slice through.
-		let slice: [number, number] | null = null;
-		const transforms: Transform[] = [];
-		{
-			let i = 1;
-			while (i < packages.length) {
-				const p = packages[i++];
-				const [ss, sl] = p.getZippedSlice();
-				if (slice) {
-					slice[0] += ss;
-					slice[1] = sl;
-				} else {
-					slice = [ss, sl];
-				}
-				const d = p.getZippedDecompressor();
-				if (d) {
-					transforms.push(d);
-					break;
-				}
-			}
-			while (i < packages.length) {
-				const p = packages[i++];
-				const [ss, sl] = p.getZippedSlice();
-				transforms.push(new SliceStream(ss, sl));
-				const d = p.getZippedDecompressor();
-				if (d) {
-					transforms.push(d);
-				}
-			}
+		// Offline, only install from installed, cached, or local packages.
+		if (
+			this.offline &&
+			method !== 'local' &&
+			!span &&
+			!packages[0].source.startsWith('file:')
+		) {
+			throw new OfflineError(
+				`Offline mode, cannot download package: ${pkg.name}`,
+				pkg.name
+			);
 		}
 
 		this.eventPackageInstallBefore.trigger({
 			package: pkg
 		});
 
+		// Download from the first working mirror, retrying errors like a
+		// stalled transfer, or read from the installed source package,
+		// or read from an already downloaded span.
+		if (method === 'local') {
+			await this._packageInstallDownload(plan, null, signal);
+		} else if (span) {
+			await this._packageInstallDownload(plan, null, signal, span);
+		} else {
+			await this._mirrored(
+				packages[0].source,
+				async url =>
+					this._retry(
+						async () =>
+							this._packageInstallDownload(plan, url, signal),
+						url,
+						pkg,
+						signal
+					),
+				signal
+			);
+		}
+
+		this.eventPackageInstallAfter.trigger({
+			package: pkg
+		});
+
+		return packages;
+	}
+
+	/**
+	 * Download and install a package from the closest available source.
+	 *
+	 * @param plan Install plan.
+	 * @param url The source URL, or null to read installed source package.
+	 * @param signal Abort signal.
+	 * @param span Downloaded span to read instead of source package.
+	 */
+	protected async _packageInstallDownload(
+		plan: IPackageInstallPlan,
+		url: string | null,
+		signal: AbortSignal | null,
+		span: IPackageSpan | null = null
+	) {
+		const {
+			package: pkg,
+			packages: [srcPkg],
+			range: slice
+		} = plan;
+
+		// Build transforms to pipe the source slice through.
+		const transforms: Transform[] = [];
+		for (const step of plan.steps) {
+			if (step.slice) {
+				const [ss, sl] = step.slice;
+				transforms.push(new SliceStream(ss, sl));
+			}
+			const d = step.package.getZippedDecompressor();
+			if (d) {
+				transforms.push(d);
+			}
+		}
+
 		const outFile = await this.pathToPackage(pkg, pkg.file);
 		const tmpDir = await this.pathToPackageMeta(pkg, TEMP_DIR);
 		const tmpFile = pathJoin(tmpDir, `${pkg.sha256}${TEMP_EXT}`);
 		const metaFile = await this.pathToPackageMeta(pkg, this.packageFile);
 
+		// A full download of a root package can resume a partial download.
+		const resumable = !slice;
+		let offset = 0;
+
 		// Create temporary directory, cleanup on failure.
-		await rm(tmpDir, {recursive: true, force: true});
-		await mkdir(tmpDir, {recursive: true});
-		const fd = await open(tmpFile, 'wx');
+		// Keep a partial download that can be resumed.
+		if (resumable) {
+			offset = await this._packageTempResumable(pkg);
+		} else {
+			await rm(tmpDir, {recursive: true, force: true});
+			await mkdir(tmpDir, {recursive: true});
+		}
+		const fd = await open(tmpFile, offset ? 'a' : 'wx');
+		let keep = resumable;
 		try {
 			const output = new WriterStream(tmpFile, {
 				fd
@@ -683,458 +2428,1419 @@ export class Manager {
 				package: pkg
 			});
 
+			let input: NodeJS.ReadableStream;
+			if (!url) {
+				// Read the slice from the installed parent file or span.
+				const [start, size] = slice as [number, number];
+				input = createReadStream(
+					span
+						? span.file
+						: await this.pathToPackage(srcPkg, srcPkg.file)
+				);
+				transforms.unshift(
+					new SliceStream(span ? start - span.start : start, size)
+				);
+			} else if (slice) {
+				const [start, size] = slice;
+				if (size > 0) {
+					const res = await this._fetch(url, {
+						headers: {
+							...this.headers,
+							Range: `bytes=${start}-${start + size - 1}`
+						},
+						signal
+					});
+					const {status} = res;
+					if (status !== 206) {
+						throw new StatusError(
+							`Invalid resume status: ${status}: ${url}`,
+							status,
+							url
+						);
+					}
+					const cl = res.headers.get('content-length');
+					if (cl && +cl !== size) {
+						throw new SizeMismatchError(
+							`Invalid resume content-length: ${cl}: ${url}`,
+							size,
+							+cl,
+							pkg.name,
+							url
+						);
+					}
+					input = this._responseStream(res);
+				} else if (size === 0) {
+					input = new EmptyStream();
+				} else {
+					throw new RangeInvalidError(
+						`Cannot download negative size: ${size}`,
+						start,
+						size,
+						pkg.name
+					);
+				}
+			} else {
+				const res = await this._fetch(url, {
+					headers: offset
+						? {
+								...this.headers,
+								Range: `bytes=${offset}-`
+							}
+						: this.headers,
+					signal
+				});
+				const {status} = res;
+				if (offset && status === 200) {
+					// Server ignored the range, download everything.
+					await fd.truncate(0);
+					offset = 0;
+				} else if (status !== (offset ? 206 : 200)) {
+					throw new StatusError(
+						`Invalid download status: ${status}: ${url}`,
+						status,
+						url
+					);
+				}
+				const cl = res.headers.get('content-length');
+				if (cl && +cl !== srcPkg.size - offset) {
+					throw new SizeMismatchError(
+						`Invalid download content-length: ${cl}: ${url}`,
+						srcPkg.size - offset,
+						+cl,
+						srcPkg.name,
+						url
+					);
+				}
+				input = this._responseStream(res);
+			}
+
+			// Hash the last readable stream to verify package.
+			// Hash any partial data being resumed first.
+			const hash = createHash('sha256');
+			if (offset) {
+				for await (const data of createReadStream(tmpFile, {
+					end: offset - 1
+				})) {
+					hash.update(data as Buffer);
+				}
+			}
+			const lastData = transforms.length
+				? transforms[transforms.length - 1]
+				: input;
+			lastData.on('data', (data: Buffer) => {
+				hash.update(data);
+			});
+
 			this.eventPackageDownloadProgress.trigger({
 				package: pkg,
 				total: pkg.size,
-				amount: 0
+				amount: offset
 			});
 
 			// Create output file, monitoring write progress.
 			output.on('wrote', () => {
 				this.eventPackageDownloadProgress.trigger({
-					package: pkg as Package,
-					total: (pkg as Package).size,
-					amount: output.bytesWritten
+					package: pkg,
+					total: pkg.size,
+					amount: offset + output.bytesWritten
 				});
 			});
 
-			let input: NodeJS.ReadableStream;
-			const url = srcPkg.source;
-			if (slice) {
-				const [start, size] = slice;
-				if (size > 0) {
-					const init = {
-						headers: {
-							...this.headers,
-							Range: `bytes=${start}-${start + size - 1}`
-						}
-					};
-					const res = await retry(async () => fetch(url, init)).catch(
-						err => {
-							if (err) {
-								throw new Error(
-									this._fetchErrorMessage(err as Error)
-								);
-							}
-							throw err;
-						}
-					);
-					const {status} = res;
-					if (status !== 206) {
-						throw new Error(
-							`Invalid resume status: ${status}: ${url}`
-						);
-					}
-					const cl = res.headers.get('content-length');
-					if (cl && +cl !== size) {
-						throw new Error(
-							`Invalid resume content-length: ${cl}: ${url}`
-						);
-					}
-					const {body} = res;
-					try {
-						input = Readable.fromWeb(body as ReadableStream);
-					} catch (err) {
-						input = body as NodeJS.ReadableStream;
-					}
-				} else if (size === 0) {
-					input = new EmptyStream();
+			// Timeout a stalled transfer.
+			const idle = url ? this._timeoutStream() : null;
+
+			// Pipe all the streams through the pipeline.
+			// Work around types failing on variable args.
+			await (pipeline as (...args: unknown[]) => Promise<void>)(
+				input,
+				...(idle ? [idle] : []),
+				...transforms,
+				output,
+				...(signal ? [{signal}] : [])
+			);
+
+			// Verify the write size.
+			const written = offset + output.bytesWritten;
+			if (written !== pkg.size) {
+				keep = false;
+				throw new SizeMismatchError(
+					`Invalid extract size: ${written}`,
+					pkg.size,
+					written,
+					pkg.name
+				);
+			}
+
+			// Verify the file hash.
+			const hashed = hash.digest().toString('hex');
+			if (hashed !== pkg.sha256) {
+				keep = false;
+				throw new HashMismatchError(
+					`Invalid sha256 hash: ${hashed}`,
+					'sha256',
+					pkg.sha256,
+					hashed,
+					pkg.name
+				);
+			}
+
+			this.eventPackageDownloadAfter.trigger({
+				package: pkg
+			});
+
+			// Move the final file into place and write package file.
+			// Write the package receipt last, means successful install.
+			await this._packageDirsEnsure(pkg);
+			await rm(metaFile, {force: true});
+			await rm(outFile, {force: true});
+			await rename(tmpFile, outFile);
+			await this._packageMetaReceiptWrite(pkg, span ? span.url : url);
+			keep = false;
+			await this._cacheAdd(pkg, outFile);
+		} catch (err) {
+			// Discard partial download and throw reason if aborted.
+			if (signal?.aborted) {
+				keep = false;
+				throw signal.reason;
+			}
+			throw err;
+		} finally {
+			// Should normally closed when stream ends.
+			await fd.close();
+			if (!keep) {
+				await rm(tmpDir, {recursive: true, force: true});
+			}
+		}
+	}
+
+	/**
+	 * Install a package from the shared cache, if cached.
+	 * Cached files are verified, invalid files are removed.
+	 *
+	 * @param pkg The package, already locked.
+	 * @returns True if installed from the cache.
+	 */
+	protected async _cacheGet(pkg: Package) {
+		const {path} = this.cache;
+		if (!path) {
+			return false;
+		}
+		const file = pathJoin(path, pkg.sha256);
+		const stat = await lstat(file).catch(() => null);
+		if (!stat) {
+			return false;
+		}
+
+		// Verify the file, the installed hard links could be modified.
+		let valid = stat.size === pkg.size;
+		if (valid) {
+			const hash = createHash('sha256');
+			await pipeline(createReadStream(file), hash);
+			valid = hash.digest('hex') === pkg.sha256;
+		}
+		if (!valid) {
+			await rm(file, {force: true});
+			return false;
+		}
+
+		const outFile = await this.pathToPackage(pkg, pkg.file);
+		const metaFile = await this.pathToPackageMeta(pkg, this.packageFile);
+		await this._packageDirsEnsure(pkg);
+		await rm(metaFile, {force: true});
+		await rm(outFile, {force: true});
+		await link(file, outFile).catch(async () => copyFile(file, outFile));
+		await this._packageMetaReceiptWrite(pkg);
+
+		// Mark as recently used.
+		const now = new Date();
+		await utimes(file, now, now);
+		return true;
+	}
+
+	/**
+	 * Check if a package is in the shared cache, without verifying it.
+	 *
+	 * @param pkg The package.
+	 * @returns True if a file of the package size is cached.
+	 */
+	protected async _cacheHas(pkg: Package) {
+		const {path} = this.cache;
+		if (!path) {
+			return false;
+		}
+		const stat = await lstat(pathJoin(path, pkg.sha256)).catch(() => null);
+		return !!stat && stat.size === pkg.size;
+	}
+
+	/**
+	 * Add an installed package file to the shared cache, if enabled.
+	 * Failing to cache does not fail the install.
+	 *
+	 * @param pkg The package.
+	 * @param outFile The installed file.
+	 */
+	protected async _cacheAdd(pkg: Package, outFile: string) {
+		const {path} = this.cache;
+		if (!path) {
+			return;
+		}
+		const file = pathJoin(path, pkg.sha256);
+		const tmpFile = `${file}.${process.pid}${TEMP_EXT}`;
+		try {
+			await mkdir(path, {recursive: true});
+			await rm(tmpFile, {force: true});
+			await link(outFile, tmpFile).catch(async () =>
+				copyFile(outFile, tmpFile)
+			);
+			await rename(tmpFile, file);
+			await this._cacheEvict();
+		} catch (err) {
+			await rm(tmpFile, {force: true});
+		}
+	}
+
+	/**
+	 * Evict the least recently used files from the shared cache.
+	 * Removes files until the total size is within the limit.
+	 */
+	protected async _cacheEvict() {
+		const {path, size} = this.cache;
+		if (!path || size <= 0) {
+			return;
+		}
+		const files: [string, number, number][] = [];
+		let total = 0;
+		for (const entry of await readdir(path)) {
+			if (!/^[\da-f]{64}$/.test(entry)) {
+				continue;
+			}
+			const file = pathJoin(path, entry);
+			// eslint-disable-next-line no-await-in-loop
+			const stat = await lstat(file).catch(() => null);
+			if (stat) {
+				files.push([file, stat.mtimeMs, stat.size]);
+				total += stat.size;
+			}
+		}
+		files.sort((a, b) => a[1] - b[1]);
+		for (const [file, , s] of files) {
+			if (total <= size) {
+				break;
+			}
+			// eslint-disable-next-line no-await-in-loop
+			await rm(file, {force: true});
+			total -= s;
+		}
+	}
+
+	/**
+	 * Find the spans of root packages to download once for many packages.
+	 * Packages with a parent being installed or already installed are skipped.
+	 * Packages in the shared cache are skipped.
+	 * Only spans with more than one package are returned.
+	 *
+	 * @param packages The packages.
+	 * @returns List of spans.
+	 */
+	protected async _packageSpans(packages: Package[]) {
+		const names = new Set(packages.map(p => p.name));
+		const roots = new Map<string, [Package, [Package, number, number][]]>();
+		for (const pkg of packages) {
+			// eslint-disable-next-line no-await-in-loop
+			const plan = await this._packagePlan(pkg);
+			const {method, packages: chain, range} = plan;
+			if (
+				method !== 'range' ||
+				chain.some(p => p !== pkg && names.has(p.name)) ||
+				// eslint-disable-next-line no-await-in-loop
+				(await this._cacheHas(pkg))
+			) {
+				continue;
+			}
+			const [start, size] = range as [number, number];
+			if (size > 0) {
+				const [root] = chain;
+				const [, ranges] = roots.get(root.sha256) || [root, []];
+				ranges.push([pkg, start, size]);
+				roots.set(root.sha256, [root, ranges]);
+			}
+		}
+
+		// Merge ranges with gaps not larger than the coalesce limit.
+		const spans: IPackageSpan[] = [];
+		for (const [, [root, ranges]] of roots) {
+			ranges.sort((a, b) => a[1] - b[1]);
+			let span: IPackageSpan | null = null;
+			for (const [pkg, start, size] of ranges) {
+				if (span && start - (span.start + span.size) <= this.coalesce) {
+					span.size = Math.max(span.size, start + size - span.start);
+					span.packages.push(pkg);
 				} else {
-					throw new Error(`Cannot download negative size: ${size}`);
-				}
-			} else {
-				const init = {
-					headers: this.headers
-				};
-				const res = await retry(async () => fetch(url, init)).catch(
-					err => {
-						if (err) {
-							throw new Error(
-								this._fetchErrorMessage(err as Error)
-							);
-						}
-						throw err;
-					}
-				);
-				const {status} = res;
-				if (status !== 200) {
-					throw new Error(
-						`Invalid download status: ${status}: ${url}`
-					);
-				}
-				const cl = res.headers.get('content-length');
-				if (cl && +cl !== srcPkg.size) {
-					throw new Error(
-						`Invalid download content-length: ${cl}: ${url}`
-					);
-				}
-				const {body} = res;
-				try {
-					input = Readable.fromWeb(body as ReadableStream);
-				} catch (err) {
-					input = body as NodeJS.ReadableStream;
+					span = {
+						root,
+						start,
+						size,
+						packages: [pkg],
+						file: this.pathToMeta(
+							TEMP_DIR,
+							`${root.name}${TEMP_EXT}`
+						),
+						url: null
+					};
+					spans.push(span);
 				}
 			}
+		}
+		return spans.filter(s => s.packages.length > 1);
+	}
 
-			// Hash the last readable stream to verify package.
-			const hash = createHash('sha256');
-			const lastData = transforms.length
-				? transforms[transforms.length - 1]
-				: input;
-			lastData.on('data', (data: Buffer) => {
-				hash.update(data);
+	/**
+	 * Download a span of a root package to its file.
+	 *
+	 * @param span The span.
+	 * @param url The source URL.
+	 * @param signal Abort signal.
+	 */
+	protected async _packageSpanDownload(
+		span: IPackageSpan,
+		url: string,
+		signal: AbortSignal | null
+	) {
+		const {start, size, file} = span;
+		await mkdir(this.pathToMeta(TEMP_DIR), {recursive: true});
+		const fd = await open(file, 'w');
+		try {
+			const output = new WriterStream(file, {
+				fd
 			});
+			const res = await this._fetch(url, {
+				headers: {
+					...this.headers,
+					Range: `bytes=${start}-${start + size - 1}`
+				},
+				signal
+			});
+			const {status} = res;
+			if (status !== 206) {
+				throw new StatusError(
+					`Invalid range status: ${status}: ${url}`,
+					status,
+					url
+				);
+			}
+			const cl = res.headers.get('content-length');
+			if (cl && +cl !== size) {
+				throw new SizeMismatchError(
+					`Invalid range content-length: ${cl}: ${url}`,
+					size,
+					+cl,
+					null,
+					url
+				);
+			}
+
+			// Timeout a stalled transfer.
+			const idle = this._timeoutStream();
 
-			// Pipe all the streams through the pipeline.
 			// Work around types failing on variable args.
 			await (pipeline as (...args: unknown[]) => Promise<void>)(
-				input,
-				...transforms,
-				output
+				this._responseStream(res),
+				...(idle ? [idle] : []),
+				output,
+				...(signal ? [{signal}] : [])
 			);
 
-			// Verify the write size.
-			if (output.bytesWritten !== pkg.size) {
-				throw new Error(`Invalid extract size: ${output.bytesWritten}`);
-			}
-
-			// Verify the file hash.
-			const hashed = hash.digest().toString('hex');
-			if (hashed !== pkg.sha256) {
-				throw new Error(`Invalid sha256 hash: ${hashed}`);
+			const written = output.bytesWritten;
+			if (written !== size) {
+				throw new SizeMismatchError(
+					`Invalid range size: ${written}: ${url}`,
+					size,
+					written,
+					null,
+					url
+				);
 			}
-
-			this.eventPackageDownloadAfter.trigger({
-				package: pkg
-			});
-
-			// Move the final file into place and write package file.
-			// Write the package receipt last, means successful install.
-			await this._packageDirsEnsure(pkg);
-			await rm(metaFile, {force: true});
-			await rm(outFile, {force: true});
-			await rename(tmpFile, outFile);
-			await this._packageMetaReceiptWrite(pkg);
+			span.url = url;
 		} finally {
 			// Should normally closed when stream ends.
 			await fd.close();
-			await rm(tmpDir, {recursive: true, force: true});
 		}
+	}
 
-		this.eventPackageInstallAfter.trigger({
-			package: pkg
-		});
+	/**
+	 * Get the number of parents of a package.
+	 *
+	 * @param pkg The package.
+	 * @returns Number of parents.
+	 */
+	protected _packageDepth(pkg: Package) {
+		let depth = 0;
+		for (let p = pkg.parent; p; p = p.parent) {
+			depth++;
+		}
+		return depth;
+	}
 
-		return packages;
+	/**
+	 * Prepare package temporary directory for a resumable download.
+	 * Removes everything except a partial download of the same package.
+	 *
+	 * @param pkg The package.
+	 * @returns Size of the partial download to resume, or 0.
+	 */
+	protected async _packageTempResumable(pkg: PackageLike) {
+		pkg = await this._asPackage(pkg);
+
+		const tmpDir = await this.pathToPackageMeta(pkg, TEMP_DIR);
+		const tmpName = `${pkg.sha256}${TEMP_EXT}`;
+		const tmpFile = pathJoin(tmpDir, tmpName);
+
+		await mkdir(tmpDir, {recursive: true});
+		for (const entry of await readdir(tmpDir)) {
+			if (entry !== tmpName) {
+				// eslint-disable-next-line no-await-in-loop
+				await rm(pathJoin(tmpDir, entry), {
+					recursive: true,
+					force: true
+				});
+			}
+		}
+
+		const stat = await lstat(tmpFile).catch(() => null);
+		if (stat && stat.isFile() && stat.size && stat.size < pkg.size) {
+			return stat.size;
+		}
+		await rm(tmpFile, {recursive: true, force: true});
+		return 0;
 	}
 
 	/**
-	 * Remove package.
+	 * Create the lock for a package.
 	 *
 	 * @param pkg The package.
-	 * @returns True if removed, false if nothing to remove.
+	 * @returns Lock instance.
 	 */
-	public async remove(pkg: PackageLike) {
-		await this.ensureLoaded();
+	protected async _packageLock(pkg: PackageLike) {
+		const name = await this._asName(pkg);
+		return new Lock(this.pathToMeta(`${name}${LOCK_EXT}`), this.lockPolicy);
+	}
+
+	/**
+	 * Ensure package directory exists.
+	 *
+	 * @param pkg The package.
+	 */
+	protected async _packageDirsEnsure(pkg: PackageLike) {
+		pkg = await this._asPackage(pkg);
 
 		const dir = await this.pathToPackage(pkg);
-		const stat = await lstat(dir).catch(() => null);
-		if (!stat) {
-			return false;
-		}
 		const dirMeta = await this.pathToPackageMeta(pkg);
+		await mkdir(dir, {recursive: true});
+		await mkdir(dirMeta, {recursive: true});
+	}
 
-		// Remove meta directory first, avoid partial installed state.
-		await rm(dirMeta, {recursive: true, force: true});
-		await rm(dir, {recursive: true, force: true});
-		return true;
+	/**
+	 * Ensure fetch-like function is set, and not in offline mode.
+	 *
+	 * @returns The fetch-like function.
+	 */
+	protected _ensureFetch(): IFetch {
+		if (this.offline) {
+			throw new OfflineError('Offline mode, cannot fetch');
+		}
+		const {fetch} = this;
+		if (!fetch) {
+			throw new FetchUnavailableError();
+		}
+		return fetch;
 	}
 
 	/**
-	 * Check if package name is obsolete.
+	 * Get fetch error messsage.
 	 *
-	 * @param pkg The package.
-	 * @returns True if package obslete, else false.
+	 * @param error Error object.
+	 * @returns Error message.
 	 */
-	public async isObsolete(pkg: string) {
-		await this.ensureLoaded();
+	protected _fetchErrorMessage(error: Error) {
+		const {message, cause} = error;
+		let msg = message;
+		if (cause) {
+			const {name, code} = cause as {name: unknown; code: unknown};
+			const info = [name, code].filter(v => v).join(' ');
+			if (info) {
+				msg += ` (${info})`;
+			}
+		}
+		return msg;
+	}
 
-		return (
-			!pkg.startsWith('.') &&
-			!(await this.packageByName(pkg)) &&
-			access(await this.pathToPackageMeta(pkg)).then(
-				() => true,
-				() => false
-			)
-		);
+	/**
+	 * List directories under package manger control.
+	 *
+	 * @returns The recognized package directories.
+	 */
+	protected async _packageDirectories() {
+		return (await readdir(this.path, {withFileTypes: true}))
+			.filter(e => !e.name.startsWith('.') && e.isDirectory())
+			.map(e => e.name)
+			.sort();
 	}
 
 	/**
-	 * List obsolete package names.
+	 * Fetch a URL, with the response timeout.
+	 * Abort errors are thrown as the abort reason.
 	 *
-	 * @returns A list of obsolete package names.
+	 * @param url The URL.
+	 * @param init Request init.
+	 * @returns The response.
 	 */
-	public async obsolete() {
-		await this.ensureLoaded();
+	protected async _fetch(url: string, init: IFetchRequestInit) {
+		if (url.startsWith('file:')) {
+			return this._fetchFile(url, init);
+		}
 
-		const list: string[] = [];
-		for (const entry of await this._packageDirectories()) {
-			// eslint-disable-next-line no-await-in-loop
-			if (await this.isObsolete(entry)) {
-				list.push(entry);
+		const fetch = this._ensureFetch();
+		const {signal} = init;
+		signal?.throwIfAborted();
+
+		// Abort on abort signal or if response takes too long.
+		const {response} = this.timeout;
+		const controller = new AbortController();
+
+		/**
+		 * Forward abort signal.
+		 */
+		const abort = () => {
+			controller.abort(signal?.reason);
+		};
+		signal?.addEventListener('abort', abort);
+		const timer = response
+			? setTimeout(() => {
+					controller.abort(
+						new TimeoutError(
+							`Response timeout: ${response}ms: ${url}`,
+							response,
+							url
+						)
+					);
+				}, response)
+			: null;
+		try {
+			return await fetch(url, {
+				...init,
+				signal: controller.signal
+			});
+		} catch (err) {
+			signal?.throwIfAborted();
+			if (controller.signal.aborted) {
+				throw controller.signal.reason;
+			}
+			if (err) {
+				throw new NetworkError(
+					this._fetchErrorMessage(err as Error),
+					url,
+					err
+				);
 			}
+			throw err;
+		} finally {
+			if (timer) {
+				clearTimeout(timer);
+			}
+			signal?.removeEventListener('abort', abort);
 		}
-		return list;
 	}
 
 	/**
-	 * Cleanup all obsolete and outdated packages.
+	 * Fetch a file URL, like an HTTP server supporting byte ranges.
 	 *
-	 * @returns Lists of removed packages.
+	 * @param url The file URL.
+	 * @param init Request init.
+	 * @returns The response.
+	 */
+	protected async _fetchFile(url: string, init: IFetchRequestInit) {
+		const {signal} = init;
+		signal?.throwIfAborted();
+
+		const file = fileURLToPath(url);
+
+		/**
+		 * Read the whole file as text.
+		 *
+		 * @returns File contents.
+		 */
+		const text = async () => readFile(file, 'utf8');
+
+		const stat = await lstat(file).catch(() => null);
+		if (!stat || !stat.isFile()) {
+			return {
+				status: 404,
+				headers: new Headers(),
+				body: Readable.from([]),
+				text
+			};
+		}
+
+		// Serve a single byte range if requested.
+		const range = /^bytes=(\d+)-(\d*)$/.exec(init.headers?.Range ?? '');
+		const start = range ? +range[1] : 0;
+		const end = range && range[2] ? +range[2] : stat.size - 1;
+		const size = Math.max(Math.min(end, stat.size - 1) - start + 1, 0);
+		return {
+			status: range ? 206 : 200,
+			headers: new Headers([['Content-Length', `${size}`]]),
+			body: size
+				? createReadStream(file, {
+						start,
+						end: start + size - 1,
+						...(signal ? {signal} : {})
+					})
+				: Readable.from([]),
+			text
+		};
+	}
+
+	/**
+	 * Get response body as a readable stream.
+	 *
+	 * @param res The response.
+	 * @returns Readable stream.
 	 */
-	public async cleanup() {
-		await this.ensureLoaded();
+	protected _responseStream(res: IFetchResponse) {
+		const {body} = res;
+		try {
+			return Readable.fromWeb(body as ReadableStream);
+		} catch (err) {
+			return body as NodeJS.ReadableStream;
+		}
+	}
 
-		const list: IPackageRemovedObsolete[] = [];
-		for (const pkg of await this._packageDirectories()) {
-			// Remove any temporary directory if present.
-			// eslint-disable-next-line no-await-in-loop
-			const tmpDir = await this.pathToPackageMeta(pkg, TEMP_DIR);
-			// eslint-disable-next-line no-await-in-loop
-			await rm(tmpDir, {recursive: true, force: true});
+	/**
+	 * Read a response body, with timeout for a stalled transfer.
+	 *
+	 * @param res The response.
+	 * @param signal Abort signal.
+	 * @returns Response body.
+	 */
+	protected async _responseBuffer(
+		res: IFetchResponse,
+		signal: AbortSignal | null
+	) {
+		const idle = this._timeoutStream();
+		const chunks: Buffer[] = [];
+		await (pipeline as (...args: unknown[]) => Promise<void>)(
+			this._responseStream(res),
+			...(idle ? [idle] : []),
+			async (source: AsyncIterable<Buffer>) => {
+				for await (const chunk of source) {
+					chunks.push(chunk);
+				}
+			},
+			...(signal ? [{signal}] : [])
+		);
+		return Buffer.concat(chunks);
+	}
 
-			// eslint-disable-next-line no-await-in-loop
-			if (await this.isObsolete(pkg)) {
-				this.eventPackageCleanupBefore.trigger({
-					package: pkg
-				});
+	/**
+	 * Create a stream that errors if a transfer stalls, if enabled.
+	 *
+	 * @returns Timeout stream or null.
+	 */
+	protected _timeoutStream() {
+		const {idle} = this.timeout;
+		return idle
+			? new TimeoutStream(
+					idle,
+					() => new TimeoutError(`Idle timeout: ${idle}ms`, idle)
+				)
+			: null;
+	}
+
+	/**
+	 * Run a function for each item, with at most concurrency running at once.
+	 * Rejects on the first error, after which no more items are started.
+	 *
+	 * @param items Items list.
+	 * @param f Function to run.
+	 */
+	protected async _concurrent<T>(items: T[], f: (item: T) => Promise<void>) {
+		let next = 0;
+		let failed = false;
+
+		/**
+		 * Run items until none remain or one fails.
+		 */
+		const worker = async () => {
+			while (!failed && next < items.length) {
+				try {
+					// eslint-disable-next-line no-await-in-loop
+					await f(items[next++]);
+				} catch (err) {
+					failed = true;
+					throw err;
+				}
+			}
+		};
+		const workers = Math.min(Math.max(this.concurrency, 1), items.length);
+		await Promise.all(Array.from({length: workers}, worker));
+	}
+
+	/**
+	 * Run a function for the mirror URLs in order, until one succeeds.
+	 * Abort errors are thrown as the abort reason.
+	 *
+	 * @param url The original URL.
+	 * @param f The function to run.
+	 * @param signal Abort signal.
+	 * @returns The result.
+	 */
+	protected async _mirrored<T>(
+		url: string,
+		f: (url: string) => Promise<T>,
+		signal: AbortSignal | null
+	) {
+		const urls = this._mirrorUrls(url);
+		for (let i = 0; ; i++) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				return await f(urls[i]);
+			} catch (err) {
+				signal?.throwIfAborted();
+				if (i + 1 >= urls.length) {
+					throw err;
+				}
+			}
+		}
+	}
+
+	/**
+	 * List the URLs to try for a URL, mirrors first and original URL last.
+	 *
+	 * @param url The original URL.
+	 * @returns List of URLs.
+	 */
+	protected _mirrorUrls(url: string) {
+		if (url.startsWith('file:')) {
+			return [url];
+		}
+		const r = new Set<string>();
+		for (const mirror of this.mirrors) {
+			const u = this._mirrorUrl(mirror, url);
+			if (u) {
+				r.add(u);
+			}
+		}
+		r.add(url);
+		return [...r];
+	}
+
+	/**
+	 * Get the URL for a mirror.
+	 * Base URLs mirror the host and path of the original URL.
+	 * Rewrite rules replace the prefix of matching URLs.
+	 *
+	 * @param mirror The mirror.
+	 * @param url The original URL.
+	 * @returns Mirror URL or null if the mirror does not apply.
+	 */
+	protected _mirrorUrl(mirror: Mirror, url: string) {
+		if (typeof mirror === 'string') {
+			const u = new URL(url);
+			const base = mirror.replace(/\/+$/, '');
+			return `${base}/${u.host}${u.pathname}${u.search}`;
+		}
+		const {from, to} = mirror;
+		return url.startsWith(from) ? `${to}${url.slice(from.length)}` : null;
+	}
 
+	/**
+	 * Run a function, retrying according to the retry policy.
+	 * Abort errors are thrown as the abort reason.
+	 *
+	 * @param f The function to run.
+	 * @param url The URL being requested.
+	 * @param pkg The package being requested, if any.
+	 * @param signal Abort signal.
+	 * @returns The result.
+	 */
+	protected async _retry<T>(
+		f: () => Promise<T>,
+		url: string,
+		pkg: Package | null,
+		signal: AbortSignal | null
+	) {
+		const {attempts} = this.retry;
+		for (let attempt = 1; ; attempt++) {
+			try {
 				// eslint-disable-next-line no-await-in-loop
-				const removed = await this.remove(pkg);
+				return await f();
+			} catch (err) {
+				signal?.throwIfAborted();
+				if (attempt >= attempts || !this._retryError(err as Error)) {
+					throw err;
+				}
 
-				this.eventPackageCleanupAfter.trigger({
+				const {status} = err as {status?: unknown};
+				const delay = this._retryDelay(attempt);
+				this.eventRequestRetry.trigger({
 					package: pkg,
-					removed
+					url,
+					attempt: attempt + 1,
+					attempts,
+					delay,
+					status: typeof status === 'number' ? status : null,
+					error: err as Error
 				});
-				list.push({
-					package: pkg,
-					removed
+
+				// eslint-disable-next-line no-await-in-loop
+				await sleep(delay, null, signal ? {signal} : {}).catch(e => {
+					signal?.throwIfAborted();
+					throw e;
 				});
 			}
 		}
-		return list;
 	}
 
 	/**
-	 * Join path on the base path.
+	 * Check if an error is retryable, by status or by code.
 	 *
-	 * @param parts Path parts.
-	 * @returns Joined path.
-	 */
-	public pathTo(...parts: string[]) {
-		return pathJoin(this.path, ...parts);
+	 * @param error Error object.
+	 * @returns Is retryable.
+	 */
+	protected _retryError(error: Error) {
+		const {statuses, codes} = this.retry;
+		for (let e = error; e; e = e.cause as Error) {
+			const {status, code} = e as {status?: unknown; code?: unknown};
+			if (typeof status === 'number' && statuses.includes(status)) {
+				return true;
+			}
+			if (typeof code === 'string' && codes.includes(code)) {
+				return true;
+			}
+		}
+		return false;
 	}
 
 	/**
-	 * Join path on the meta path.
+	 * Get the delay before the next attempt.
 	 *
-	 * @param parts Path parts.
-	 * @returns Joined path.
+	 * @param attempt The attempt that failed, starting from 1.
+	 * @returns Delay in milliseconds.
 	 */
-	public pathToMeta(...parts: string[]) {
-		return this.pathTo(this.metaDir, ...parts);
+	protected _retryDelay(attempt: number) {
+		const {delay, delayMax, factor, jitter} = this.retry;
+		const d = Math.min(delay * factor ** (attempt - 1), delayMax);
+		return Math.round(d * (1 - jitter * Math.random()));
 	}
 
 	/**
-	 * Join path on package base path.
+	 * Request the packages file.
+	 * With cache validators, returns null if not modified.
 	 *
-	 * @param pkg The package.
-	 * @param parts Path parts.
-	 * @returns Joined path.
-	 */
-	public async pathToPackage(pkg: PackageLike, ...parts: string[]) {
-		await this.ensureLoaded();
-
-		return this.pathTo(await this._asName(pkg), ...parts);
+	 * @param signal Abort signal.
+	 * @param cache Cache validators from the last request.
+	 * @returns File contents and cache validators, or null.
+	 */
+	protected async _requestPackages(
+		signal: AbortSignal | null = null,
+		cache: IPackagesCache | null = null
+	) {
+		return this._mirrored(
+			this.packagesUrl,
+			async url =>
+				this._retry(
+					async () =>
+						this._requestPackagesUrl(
+							url,
+							signal,
+							cache && cache.url === url ? cache : null
+						),
+					url,
+					null,
+					signal
+				),
+			signal
+		);
 	}
 
 	/**
-	 * Join path on package meta path.
+	 * Request and parse the registries packages lists.
 	 *
-	 * @param pkg The package.
-	 * @param parts Path parts.
-	 * @returns Joined path.
+	 * @param signal Abort signal.
+	 * @returns Packages lists, by name in priority order.
 	 */
-	public async pathToPackageMeta(pkg: PackageLike, ...parts: string[]) {
-		await this.ensureLoaded();
+	protected async _registriesRequest(signal: AbortSignal | null = null) {
+		const lists = new Map<string, Packages>();
+		for (const {name, url} of this.registries) {
+			const packages = this._createRegistryPackages(name);
+			// eslint-disable-next-line no-await-in-loop
+			const response = await this._mirrored(
+				url,
+				async u =>
+					this._retry(
+						async () => this._requestPackagesUrl(u, signal, null),
+						u,
+						null,
+						signal
+					),
+				signal
+			);
+			// Without cache validators, response is never null.
+			packages.update((response as IPackagesResponse).data);
+			lists.set(name, packages);
+		}
+		return lists;
+	}
 
-		return this.pathTo(await this._asName(pkg), this.metaDir, ...parts);
+	/**
+	 * Read the registries packages lists, if any.
+	 *
+	 * @returns Packages lists, by name in priority order.
+	 */
+	protected async _registriesRead() {
+		const lists = new Map<string, Packages>();
+		for (const {name} of this.registries) {
+			const packages = this._createRegistryPackages(name);
+			// eslint-disable-next-line no-await-in-loop
+			await packages.readIfExists();
+			lists.set(name, packages);
+		}
+		return lists;
 	}
 
 	/**
-	 * Get package object by object, name, or hash.
-	 * Throw error if package is unknown.
+	 * Write the registries packages lists.
 	 *
-	 * @param pkg The package.
-	 * @returns Package object.
+	 * @param lists Packages lists.
 	 */
-	protected async _asPackage(pkg: PackageLike) {
-		await this.ensureLoaded();
+	protected async _registriesWrite(lists: ReadonlyMap<string, Packages>) {
+		if (!lists.size) {
+			return;
+		}
+		await mkdir(this.pathToMeta(this.registriesDir), {recursive: true});
+		for (const packages of lists.values()) {
+			// eslint-disable-next-line no-await-in-loop
+			await packages.write();
+		}
+	}
 
-		if (typeof pkg === 'string') {
-			const p = await this.packageByUnique(pkg);
-			if (!p) {
-				throw new Error(`Unknown package: ${pkg}`);
+	/**
+	 * Add the packages overlay to packages lists, if the overlay exists.
+	 * Root package sources can be file paths, relative to the meta directory.
+	 *
+	 * @param lists Packages lists, by name in priority order.
+	 * @returns The packages lists.
+	 */
+	protected async _overlayMerge(lists: Map<string, Packages>) {
+		const file = this.pathToMeta(this.packagesOverlayFile);
+		const data = await readFile(file, 'utf8').catch(err => {
+			if ((err as {code: string}).code === 'ENOENT') {
+				return null;
 			}
-			return p;
+			throw err;
+		});
+		if (data === null) {
+			return lists;
 		}
-		return pkg;
+
+		// Resolve file path sources to file URLs, before validation.
+		const list = JSON.parse(data) as {packages?: unknown};
+		if (Array.isArray(list.packages)) {
+			for (const info of list.packages as {source?: unknown}[]) {
+				if (info && typeof info.source === 'string') {
+					info.source = this._overlaySource(info.source);
+				}
+			}
+		}
+
+		const packages = new Packages(file);
+		packages.update(JSON.stringify(list));
+		lists.set(this.packagesOverlayFile, packages);
+		return lists;
 	}
 
 	/**
-	 * Get package name by object, name, or hash.
-	 * If package object is passed, uses name from the object.
-	 * If string is passed and unknown, returns that same string.
+	 * Resolve a root package source in the packages overlay to a URL.
 	 *
-	 * @param pkg The package.
-	 * @returns Package object.
+	 * @param source Package source, a URL or a file path.
+	 * @returns Package source URL.
 	 */
-	protected async _asName(pkg: PackageLike) {
-		await this.ensureLoaded();
-
-		return typeof pkg === 'string'
-			? (await this.packageByUnique(pkg))?.name ?? pkg
-			: pkg.name;
+	protected _overlaySource(source: string) {
+		if (isAbsolute(source)) {
+			return pathToFileURL(source).href;
+		}
+		if (/^[a-z][\d+.a-z-]*:/i.test(source)) {
+			return source;
+		}
+		return pathToFileURL(pathResolve(this.pathToMeta(), source)).href;
 	}
 
 	/**
-	 * Write package installed receipt.
+	 * Request the packages file from a URL.
+	 * With cache validators, returns null if not modified.
 	 *
-	 * @param pkg The package.
-	 */
-	protected async _packageMetaReceiptWrite(pkg: PackageLike) {
-		await this.ensureLoaded();
-		pkg = await this._asPackage(pkg);
+	 * @param url The URL.
+	 * @param signal Abort signal.
+	 * @param cache Cache validators from the last request to the URL.
+	 * @returns File contents and cache validators, or null.
+	 */
+	protected async _requestPackagesUrl(
+		url: string,
+		signal: AbortSignal | null,
+		cache: IPackagesCache | null = null
+	): Promise<IPackagesResponse | null> {
+		const headers: {[header: string]: string} = {
+			...this.headers,
+			// eslint-disable-next-line @typescript-eslint/naming-convention
+			'Cache-Control': 'max-age=0',
+			Pragma: 'no-cache'
+		};
+		if (cache?.etag) {
+			headers['If-None-Match'] = cache.etag;
+		}
+		if (cache?.lastModified) {
+			headers['If-Modified-Since'] = cache.lastModified;
+		}
+		const res = await this._fetch(url, {
+			headers,
+			signal
+		});
+		const {status} = res;
+		if (cache && status === 304) {
+			return null;
+		}
+		if (status !== 200) {
+			throw new StatusError(
+				`Invalid response status: ${status}: ${url}`,
+				status,
+				url
+			);
+		}
 
-		const pkgf = await this.pathToPackageMeta(pkg, this.packageFile);
-		const pkgfTmp = `${pkgf}${TEMP_EXT}`;
+		// Verify the exact data downloaded, if enabled.
+		const data = await this._responseBuffer(res, signal);
+		const {keys, required} = this.signature;
+		if (keys.length || required) {
+			await this._requestPackagesVerify(url, data, signal);
+		}
+		return {
+			data: data.toString('utf8'),
+			cache: {
+				url,
+				etag: res.headers.get('etag'),
+				lastModified: res.headers.get('last-modified')
+			}
+		};
+	}
 
-		const receipt = await this._packageMetaReceiptFromPackage(pkg);
-		await rm(pkgfTmp, {force: true});
-		await writeFile(pkgfTmp, JSON.stringify(receipt, null, '\t'), {
-			flag: 'wx'
+	/**
+	 * Request the packages list signature and verify the data.
+	 * Missing signatures are only allowed if not required.
+	 *
+	 * @param url The packages list URL.
+	 * @param data The packages list data.
+	 * @param signal Abort signal.
+	 */
+	protected async _requestPackagesVerify(
+		url: string,
+		data: Buffer,
+		signal: AbortSignal | null
+	) {
+		const {keys, required} = this.signature;
+		const sigUrl = `${url}${SIGNATURE_EXT}`;
+		const res = await this._fetch(sigUrl, {
+			headers: {
+				...this.headers,
+				// eslint-disable-next-line @typescript-eslint/naming-convention
+				'Cache-Control': 'max-age=0',
+				Pragma: 'no-cache'
+			},
+			signal
 		});
-		await rename(pkgfTmp, pkgf);
+		const {status} = res;
+		if (status === 404) {
+			if (required) {
+				throw new SignatureError(
+					`Missing packages list signature: ${sigUrl}`,
+					'ERR_SIGNATURE_MISSING',
+					sigUrl
+				);
+			}
+			return;
+		}
+		if (status !== 200) {
+			throw new StatusError(
+				`Invalid response status: ${status}: ${sigUrl}`,
+				status,
+				sigUrl
+			);
+		}
+
+		// Raw signature, or base64 encoded.
+		let sig = await this._responseBuffer(res, signal);
+		if (sig.length !== 64) {
+			sig = Buffer.from(sig.toString('utf8').trim(), 'base64');
+		}
+		for (const key of keys) {
+			const k = typeof key === 'string' ? createPublicKey(key) : key;
+			if (
+				k.asymmetricKeyType === 'ed25519' &&
+				verify(null, data, k, sig)
+			) {
+				return;
+			}
+		}
+		throw new SignatureError(
+			`Invalid packages list signature: ${sigUrl}`,
+			'ERR_SIGNATURE_INVALID',
+			sigUrl
+		);
 	}
 
 	/**
-	 * Create package installed receipt object from a package.
+	 * Read the packages list cache validators, if any.
 	 *
-	 * @param pkg The package.
-	 * @returns Receipt object.
+	 * @returns Cache validators or null.
 	 */
-	// eslint-disable-next-line @typescript-eslint/require-await
-	protected async _packageMetaReceiptFromPackage(pkg: PackageLike) {
-		await this.ensureLoaded();
-		pkg = await this._asPackage(pkg);
+	protected async _packagesCacheRead() {
+		try {
+			const cache = JSON.parse(
+				await readFile(this.pathToMeta(this.packagesCacheFile), 'utf8')
+			) as IPackagesCache;
+			return typeof cache.url === 'string' ? cache : null;
+		} catch (err) {
+			return null;
+		}
+	}
 
-		const r: IPackageReceipt = {
+	/**
+	 * Get the packages list info for a package, without child packages.
+	 *
+	 * @param pkg The package.
+	 * @returns Package info.
+	 */
+	protected _packageListInfo(pkg: Package) {
+		const info: IPackagesListPackage = {
 			name: pkg.name,
 			file: pkg.file,
 			size: pkg.size,
 			sha256: pkg.sha256,
+			sha1: pkg.sha1,
+			md5: pkg.md5,
 			source: pkg.source
 		};
-		return r;
+		if (pkg.zipped) {
+			info.zipped = pkg.zipped;
+		}
+		return info;
 	}
 
 	/**
-	 * Ensure package directory exists.
+	 * Cast the parsed lockfile data.
+	 * Validates every package and its parents like the packages list.
 	 *
-	 * @param pkg The package.
+	 * @param data Parsed data.
+	 * @returns Cast data.
 	 */
-	protected async _packageDirsEnsure(pkg: PackageLike) {
-		await this.ensureLoaded();
-		pkg = await this._asPackage(pkg);
+	protected _castLockfile(data: unknown) {
+		if (!data || typeof data !== 'object' || Array.isArray(data)) {
+			throw this._castLockfileError('', 'Expected object');
+		}
+		const {format, packages} = data as {[key: string]: unknown};
+		if (typeof format !== 'string') {
+			throw this._castLockfileError('format', 'Expected string');
+		}
+		if (!Array.isArray(packages)) {
+			throw this._castLockfileError('packages', 'Expected array');
+		}
+		for (let i = 0; i < packages.length; i++) {
+			const path = `packages[${i}]`;
+			const info = packages[i] as unknown;
+			if (!info || typeof info !== 'object' || Array.isArray(info)) {
+				throw this._castLockfileError(path, 'Expected object');
+			}
+			const {parents} = info as {parents?: unknown};
+			if (!Array.isArray(parents)) {
+				throw this._castLockfileError(
+					`${path}.parents`,
+					'Expected array'
+				);
+			}
+			try {
+				this._packages.validatePackage(info, path, parents.length > 0);
+				for (let j = 0; j < parents.length; j++) {
+					this._packages.validatePackage(
+						parents[j],
+						`${path}.parents[${j}]`,
+						j < parents.length - 1
+					);
+				}
+			} catch (err) {
+				if (err instanceof PackagesValidationError) {
+					throw this._castLockfileError(err.path, err.reason);
+				}
+				throw err;
+			}
+		}
+		return data as ILockfile;
+	}
 
-		const dir = await this.pathToPackage(pkg);
-		const dirMeta = await this.pathToPackageMeta(pkg);
-		await mkdir(dir, {recursive: true});
-		await mkdir(dirMeta, {recursive: true});
+	/**
+	 * Create a lockfile validation error.
+	 *
+	 * @param path Path of the invalid value.
+	 * @param message Error message.
+	 * @returns Error object.
+	 */
+	protected _castLockfileError(path: string, message: string) {
+		return new LockfileValidationError(
+			path
+				? `Failed to validate lockfile: ${path}: ${message}`
+				: `Failed to validate lockfile: ${message}`,
+			path,
+			message
+		);
 	}
 
 	/**
-	 * Ensure fetch-like function is set.
+	 * Create a package from a lockfile package, with its parents.
 	 *
-	 * @returns The fetch-like function.
-	 */
-	protected _ensureFetch(): IFetch {
-		const {fetch} = this;
-		if (!fetch) {
-			throw new Error('Default fetch not available');
+	 * @param locked Lockfile package.
+	 * @returns The package.
+	 */
+	protected _packageFromLockfile(locked: Readonly<ILockfilePackage>) {
+		const {parents, ...info} = locked;
+		let root: IPackagesListPackage = info;
+		for (const parent of parents) {
+			root = {
+				...parent,
+				packages: [root]
+			};
 		}
-		return fetch;
+		let pkg = new Package(root);
+		for (let i = parents.length; i--;) {
+			[pkg] = pkg.packages;
+		}
+		return pkg;
 	}
 
 	/**
-	 * Get fetch error messsage.
+	 * Get the pinned version of a package.
+	 * Searches packages list history if not the listed version.
 	 *
-	 * @param error Error object.
-	 * @returns Error message.
+	 * @param pkg The package.
+	 * @returns The pinned package, or same package if not pinned.
 	 */
-	protected _fetchErrorMessage(error: Error) {
-		const {message, cause} = error;
-		let msg = message;
-		if (cause) {
-			const {name, code} = cause as {name: unknown; code: unknown};
-			const info = [name, code].filter(v => v).join(' ');
-			if (info) {
-				msg += ` (${info})`;
+	protected async _packagePinned(pkg: Package) {
+		const sha256 = (await this._pinsRead()).get(pkg.name);
+		if (!sha256 || sha256 === pkg.sha256) {
+			return pkg;
+		}
+
+		for (const {id} of await this.listHistory()) {
+			const packages = new Packages(
+				this.pathToMeta(this.packagesHistoryDir, `${id}.json`)
+			);
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await packages.read();
+			} catch (err) {
+				continue;
+			}
+			const p = packages.byName(pkg.name);
+			if (p && p.sha256 === sha256) {
+				return p;
 			}
 		}
-		return msg;
+		throw new PinUnavailableError(
+			`Pinned package not available: ${pkg.name}: ${sha256}`,
+			pkg.name,
+			sha256
+		);
 	}
 
 	/**
-	 * List directories under package manger control.
+	 * Read the pins file, if any.
 	 *
-	 * @returns The recognized package directories.
+	 * @returns Map of package names to SHA256 hashes.
 	 */
-	protected async _packageDirectories() {
-		return (await readdir(this.path, {withFileTypes: true}))
-			.filter(e => !e.name.startsWith('.') && e.isDirectory())
-			.map(e => e.name)
-			.sort();
+	protected async _pinsRead() {
+		const pins = new Map<string, string>();
+		const data = await readFile(this.pathToMeta(this.pinsFile), 'utf8')
+			.then(s => JSON.parse(s) as {[name: string]: string})
+			.catch(() => null);
+		for (const [name, sha256] of Object.entries(data || {})) {
+			pins.set(name, sha256);
+		}
+		return pins;
 	}
 
 	/**
-	 * Request the packages file.
+	 * Write the pins file, sorted by name.
 	 *
-	 * @returns File contents as string.
+	 * @param pins Map of package names to SHA256 hashes.
 	 */
-	protected async _requestPackages() {
-		const fetch = this._ensureFetch();
+	protected async _pinsWrite(pins: Map<string, string>) {
+		const data: {[name: string]: string} = {};
+		for (const name of [...pins.keys()].sort()) {
+			data[name] = pins.get(name) as string;
+		}
+		await mkdir(this.pathToMeta(), {recursive: true});
+		await writeFile(
+			this.pathToMeta(this.pinsFile),
+			JSON.stringify(data, null, '\t')
+		);
+	}
 
-		const url = this.packagesUrl;
-		const init = {
-			headers: {
-				...this.headers,
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				'Cache-Control': 'max-age=0',
-				Pragma: 'no-cache'
-			}
-		};
-		const res = await retry(async () => fetch(url, init)).catch(err => {
-			if (err) {
-				throw new Error(this._fetchErrorMessage(err as Error));
-			}
-			throw err;
-		});
-		const {status} = res;
-		if (status !== 200) {
-			throw new Error(`Invalid response status: ${status}: ${url}`);
+	/**
+	 * Add the current packages list file to history, if any.
+	 * Skipped if same as the newest history entry.
+	 * Removes the oldest entries over the history limit.
+	 */
+	protected async _packagesHistoryAdd() {
+		const {history} = this;
+		if (history <= 0) {
+			return;
+		}
+
+		let data;
+		try {
+			data = await readFile(this.pathToMeta(this.packagesFile));
+		} catch (err) {
+			return;
+		}
+
+		const dir = this.pathToMeta(this.packagesHistoryDir);
+		const hash = createHash('sha256').update(data).digest('hex');
+		const list = await this.listHistory();
+		if (!list.length || !list[0].id.endsWith(`-${hash}`)) {
+			const time = Date.now();
+			const id = `${time}-${hash}`;
+			await mkdir(dir, {recursive: true});
+			await writeFile(pathJoin(dir, `${id}.json`), data);
+			list.unshift({
+				id,
+				time
+			});
+		}
+		for (const {id} of list.slice(history)) {
+			// eslint-disable-next-line no-await-in-loop
+			await rm(pathJoin(dir, `${id}.json`), {force: true});
+		}
+	}
+
+	/**
+	 * Write the packages list cache validators, removing if none.
+	 *
+	 * @param cache Cache validators.
+	 */
+	protected async _packagesCacheWrite(cache: IPackagesCache) {
+		const file = this.pathToMeta(this.packagesCacheFile);
+		if (cache.etag || cache.lastModified) {
+			await writeFile(file, JSON.stringify(cache, null, '\t'));
+		} else {
+			await rm(file, {force: true});
 		}
-		return res.text();
 	}
 
 	/**
@@ -1157,6 +3863,17 @@ export class Manager {
 		return path || process.env[PATH_ENV] || MAIN_DIR;
 	}
 
+	/**
+	 * Create the offline mode, from environment variable.
+	 *
+	 * @returns Offline mode.
+	 */
+	protected _createOffline() {
+		// eslint-disable-next-line no-process-env
+		const value = process.env[OFFLINE_ENV] || '';
+		return !['', '0', 'false'].includes(value.toLowerCase());
+	}
+
 	/**
 	 * Create the Packages instance.
 	 *
@@ -1165,4 +3882,21 @@ export class Manager {
 	protected _createPackages() {
 		return new Packages(this.pathToMeta(this.packagesFile));
 	}
+
+	/**
+	 * Create a registry packages instance.
+	 *
+	 * @param name Registry name.
+	 * @returns Packages instance.
+	 */
+	protected _createRegistryPackages(name: string) {
+		if (!/^[\w.-]+$/.test(name) || /^\.+$/.test(name)) {
+			throw new RegistryNameError(`Invalid registry name: ${name}`, name);
+		}
+		const packages = new Packages(
+			this.pathToMeta(this.registriesDir, `${name}.json`)
+		);
+		packages.lock = this._packages.lock;
+		return packages;
+	}
 }
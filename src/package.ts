@@ -1,6 +1,12 @@
 import {Transform} from 'node:stream';
 import {createInflateRaw as zlibCreateInflateRaw} from 'node:zlib';
 
+import {
+	CompressionError,
+	PackageNotChildError,
+	ZippedInfoError
+} from './errors';
+
 export interface IPackagesListPackage {
 	/**
 	 * Package name.
@@ -46,6 +52,46 @@ export interface IPackagesListPackage {
 	 * Zipped info if a child package or null if a root package.
 	 */
 	zipped?: string;
+
+	/**
+	 * Display title, format 2.0.
+	 */
+	title?: string;
+
+	/**
+	 * Version string, format 2.0.
+	 */
+	version?: string;
+
+	/**
+	 * Platform, format 2.0.
+	 */
+	platform?: string;
+
+	/**
+	 * Architecture, format 2.0.
+	 */
+	arch?: string;
+
+	/**
+	 * Tags, format 2.0.
+	 */
+	tags?: string[];
+
+	/**
+	 * Release date as an ISO 8601 string, format 2.0.
+	 */
+	released?: string;
+
+	/**
+	 * License URL, format 2.0.
+	 */
+	license?: string;
+
+	/**
+	 * Names of packages required by this package, format 2.0.
+	 */
+	requires?: string[];
 }
 
 /**
@@ -92,6 +138,46 @@ export class Package {
 	 */
 	public readonly zipped: string | null;
 
+	/**
+	 * Display title or null if not set.
+	 */
+	public readonly title: string | null;
+
+	/**
+	 * Version string or null if not set.
+	 */
+	public readonly version: string | null;
+
+	/**
+	 * Platform or null if not set.
+	 */
+	public readonly platform: string | null;
+
+	/**
+	 * Architecture or null if not set.
+	 */
+	public readonly arch: string | null;
+
+	/**
+	 * Tags or null if not set.
+	 */
+	public readonly tags: readonly string[] | null;
+
+	/**
+	 * Release date as an ISO 8601 string or null if not set.
+	 */
+	public readonly released: string | null;
+
+	/**
+	 * License URL or null if not set.
+	 */
+	public readonly license: string | null;
+
+	/**
+	 * Names of packages required by this package.
+	 */
+	public readonly requires: readonly string[];
+
 	/**
 	 * Child packages.
 	 */
@@ -114,9 +200,18 @@ export class Package {
 	) {
 		const {zipped} = info;
 		if (parent && !zipped) {
-			throw new Error(`Missing zipped info: ${info.name}`);
+			throw new ZippedInfoError(
+				`Missing zipped info: ${info.name}`,
+				'ERR_ZIPPED_MISSING',
+				info.name
+			);
 		} else if (!parent && zipped) {
-			throw new Error(`Unexpected zipped info: ${info.name}`);
+			throw new ZippedInfoError(
+				`Unexpected zipped info: ${info.name}`,
+				'ERR_ZIPPED_UNEXPECTED',
+				info.name,
+				zipped
+			);
 		}
 
 		this.name = info.name;
@@ -127,6 +222,14 @@ export class Package {
 		this.md5 = info.md5;
 		this.source = info.source;
 		this.zipped = zipped || null;
+		this.title = info.title ?? null;
+		this.version = info.version ?? null;
+		this.platform = info.platform ?? null;
+		this.arch = info.arch ?? null;
+		this.tags = info.tags ? [...info.tags] : null;
+		this.released = info.released ?? null;
+		this.license = info.license ?? null;
+		this.requires = info.requires ? [...info.requires] : [];
 		this.parent = parent;
 		this.packages = this._createPackages(info.packages);
 	}
@@ -139,7 +242,7 @@ export class Package {
 	public getZippedCompression(): number {
 		const {zipped} = this;
 		if (!zipped) {
-			throw new Error('Not a child package');
+			throw new PackageNotChildError('Not a child package', this.name);
 		}
 		return +zipped.split('-')[0];
 	}
@@ -152,7 +255,7 @@ export class Package {
 	public getZippedSlice(): [number, number] {
 		const {zipped} = this;
 		if (!zipped) {
-			throw new Error('Not a child package');
+			throw new PackageNotChildError('Not a child package', this.name);
 		}
 		const parts = zipped.split('-');
 		return [+parts[1], +parts[2]];
@@ -176,7 +279,10 @@ export class Package {
 				// Do nothing.
 			}
 		}
-		throw new Error(`Unsupported zipped compression: ${method}`);
+		throw new CompressionError(
+			`Unsupported zipped compression: ${method}`,
+			method
+		);
 	}
 
 	/**
@@ -4,7 +4,13 @@ import {describe, it} from 'node:test';
 import {deepStrictEqual, ok, strictEqual, throws} from 'node:assert';
 import {access, mkdir, rm, writeFile} from 'node:fs/promises';
 
+import {Package} from './package';
 import {Packages} from './packages';
+import {
+	PackageNotChildError,
+	PackageNotInCollectionError,
+	ZippedInfoError
+} from './errors';
 
 const withTemp = (i => async (func: (file: string, dir: string) => unknown) => {
 	const dir = `./spec/tmp/packages/${i++}`;
@@ -190,12 +196,12 @@ const dummyPackagesFormatMajorUnder = {
 };
 
 const dummyPackagesFormatMajorOver = {
-	format: '2.0',
+	format: '3.0',
 	packages: []
 };
 
 const dummyPackagesFormatMinorUnder = {
-	format: '2.-1',
+	format: '1.1',
 	packages: []
 };
 
@@ -204,6 +210,40 @@ const dummyPackagesFormatMinorOver = {
 	packages: []
 };
 
+const dummyPackagesFormat2 = {
+	format: '2.0',
+	packages: [
+		{
+			name: 'package-a',
+			file: 'package-a.zip',
+			sha256: dummySha256('A'),
+			sha1: dummySha1('A'),
+			md5: dummyMd5('A'),
+			size: 1000,
+			source: 'https://example.com/package-a.zip',
+			title: 'Package A',
+			version: '1.2.3',
+			platform: 'win32',
+			arch: 'x64',
+			tags: ['sdk', 'runtime'],
+			released: '2020-01-02',
+			license: 'https://example.com/license.html',
+			packages: [
+				{
+					name: 'package-a-a',
+					file: 'package-a-a.zip',
+					sha256: dummySha256('AA'),
+					sha1: dummySha1('AA'),
+					md5: dummyMd5('AA'),
+					size: 100,
+					source: 'package-a-a.zip',
+					zipped: '0-200-100'
+				}
+			]
+		}
+	]
+};
+
 /**
  * Get the error from a promise.
  *
@@ -305,13 +345,132 @@ void describe('packages', () => {
 					const packages = new Packages(file);
 					const json = JSON.stringify(dummyPackagesFormatMinorOver);
 
-					throws(() => {
-						packages.update(json);
-					});
+					packages.update(json);
 
-					strictEqual(packages.loaded, false);
+					strictEqual(packages.loaded, true);
+				});
+			});
+
+			void it('format 2 metadata', async () => {
+				await withTemp(file => {
+					const packages = new Packages(file);
+					packages.update(JSON.stringify(dummyPackagesFormat2));
+
+					const a = packages.byName('package-a');
+					ok(a);
+					strictEqual(a.title, 'Package A');
+					strictEqual(a.version, '1.2.3');
+					strictEqual(a.platform, 'win32');
+					strictEqual(a.arch, 'x64');
+					deepStrictEqual(a.tags, ['sdk', 'runtime']);
+					strictEqual(a.released, '2020-01-02');
+					strictEqual(a.license, 'https://example.com/license.html');
+
+					const aa = packages.byName('package-a-a');
+					ok(aa);
+					strictEqual(aa.title, null);
+					strictEqual(aa.tags, null);
 				});
 			});
+
+			void describe('invalid', () => {
+				interface IData {
+					[key: string]: unknown;
+					packages: IData[];
+				}
+				const cases: [string, (data: IData) => void][] = [
+					[
+						'format',
+						d => {
+							d.format = 1;
+						}
+					],
+					[
+						'packages',
+						d => {
+							d.packages = {} as IData[];
+						}
+					],
+					[
+						'packages[0].name',
+						d => {
+							d.packages[0].name = '';
+						}
+					],
+					[
+						'packages[2].size',
+						d => {
+							d.packages[2].size = '1000';
+						}
+					],
+					[
+						'packages[0].size',
+						d => {
+							d.packages[0].size = -1;
+						}
+					],
+					[
+						'packages[1].sha256',
+						d => {
+							delete d.packages[1].sha256;
+						}
+					],
+					[
+						'packages[1].packages[1].md5',
+						d => {
+							d.packages[1].packages[1].md5 = dummyMd5('G');
+						}
+					],
+					[
+						'packages[1].packages[0].packages[1].zipped',
+						d => {
+							d.packages[1].packages[0].packages[1].zipped =
+								'0-500';
+						}
+					],
+					[
+						'packages[0].tags[1]',
+						d => {
+							d.packages[0].tags = ['sdk', 1];
+						}
+					],
+					[
+						'packages[0].released',
+						d => {
+							d.packages[0].released = 'never';
+						}
+					],
+					[
+						'packages[2].zipped',
+						d => {
+							d.packages[2].zipped = '0-0-1000';
+						}
+					]
+				];
+				const prefix = 'Failed to validate packages: ';
+				for (const [path, mutate] of cases) {
+					void it(path, async () => {
+						await withTemp(file => {
+							const packages = new Packages(file);
+							const data = JSON.parse(
+								JSON.stringify(dummyPackages)
+							) as IData;
+							mutate(data);
+							const json = JSON.stringify(data);
+
+							throws(
+								() => {
+									packages.update(json);
+								},
+								(err: Error) =>
+									err.message.startsWith(`${prefix}${path}: `)
+							);
+
+							strictEqual(packages.loaded, false);
+						});
+					});
+				}
+			});
 		});
 
 		void it('write', async () => {
@@ -444,5 +603,69 @@ void describe('packages', () => {
 				});
 			});
 		});
+
+		void describe('errors', () => {
+			void it('not in collection', async () => {
+				await withTemp(file => {
+					const packages = new Packages(file);
+					packages.update(JSON.stringify(dummyPackages));
+					const other = new Packages(file);
+					other.update(JSON.stringify(dummyPackages));
+					const pkg = other.byName('package-a') as Package;
+
+					throws(
+						() => {
+							packages.assertHas(pkg);
+						},
+						(err: unknown) =>
+							err instanceof PackageNotInCollectionError &&
+							err.code === 'ERR_PACKAGE_NOT_IN_COLLECTION' &&
+							err.package === 'package-a'
+					);
+				});
+			});
+
+			void it('not a child', async () => {
+				await withTemp(file => {
+					const packages = new Packages(file);
+					packages.update(JSON.stringify(dummyPackages));
+					const pkg = packages.byName('package-a') as Package;
+
+					throws(
+						() => pkg.getZippedSlice(),
+						(err: unknown) =>
+							err instanceof PackageNotChildError &&
+							err.code === 'ERR_PACKAGE_NOT_CHILD' &&
+							err.package === 'package-a'
+					);
+					throws(
+						() => pkg.getZippedCompression(),
+						PackageNotChildError
+					);
+				});
+			});
+
+			void it('zipped info', () => {
+				const [root] = dummyPackages.packages;
+				const zipped = '0-0-1';
+
+				throws(
+					() => new Package({...root, zipped}),
+					(err: unknown) =>
+						err instanceof ZippedInfoError &&
+						err.code === 'ERR_ZIPPED_UNEXPECTED' &&
+						err.package === root.name &&
+						err.zipped === zipped
+				);
+				throws(
+					() => new Package({...root, packages: [{...root}]}),
+					(err: unknown) =>
+						err instanceof ZippedInfoError &&
+						err.code === 'ERR_ZIPPED_MISSING' &&
+						err.package === root.name &&
+						err.zipped === null
+				);
+			});
+		});
 	});
 });
@@ -1,8 +1,16 @@
-import {access, mkdir, readFile, rename, rm, writeFile} from 'node:fs/promises';
-import {dirname} from 'node:path';
+import {access, readFile, rename, rm, writeFile} from 'node:fs/promises';
 
 import {IPackagesListPackage, Package} from './package';
-import {TEMP_EXT} from './constants';
+import {LOCK_EXT, LOCK_STALE, LOCK_TIMEOUT, TEMP_EXT} from './constants';
+import {ILockPolicy, Lock} from './lock';
+import {
+	FormatVersionError,
+	PackageDuplicateError,
+	PackageNotInCollectionError,
+	PackagesNotLoadedError,
+	PackagesValidationError,
+	RegistryConflictError
+} from './errors';
 
 export interface IPackageUpdated {
 	/**
@@ -26,6 +34,45 @@ export interface IPackageUpdated {
 	sha256: string;
 }
 
+export type PackageUpdatedField =
+	| 'file'
+	| 'size'
+	| 'sha256'
+	| 'sha1'
+	| 'md5'
+	| 'source'
+	| 'zipped'
+	| 'parent';
+
+export interface IPackageUpdatedChange {
+	/**
+	 * Field changed, parent is the parent package name.
+	 */
+	field: PackageUpdatedField;
+
+	/**
+	 * Value before.
+	 */
+	before: string | number | null;
+
+	/**
+	 * Value after.
+	 */
+	after: string | number | null;
+}
+
+export interface IPackageUpdatedDiff extends IPackageUpdated {
+	/**
+	 * List of changed fields.
+	 */
+	changes: IPackageUpdatedChange[];
+
+	/**
+	 * Package moved to a different parent.
+	 */
+	moved: boolean;
+}
+
 export interface IPackagesList {
 	/**
 	 * Format version.
@@ -77,6 +124,11 @@ export class Packages {
 	 */
 	protected _packagesByUnique = new Map<string, Package>();
 
+	/**
+	 * Other packages lists merged after this list, by name in priority order.
+	 */
+	protected _merged = new Map<string, Packages>();
+
 	/**
 	 * The path to the packages file.
 	 */
@@ -85,7 +137,20 @@ export class Packages {
 	/**
 	 * Format version.
 	 */
-	public static readonly FORMAT: string = '1.2';
+	public static readonly FORMAT: string = '2.0';
+
+	/**
+	 * Readable format versions, the minimum version for each major version.
+	 */
+	public static readonly FORMATS: readonly string[] = ['1.2', '2.0'];
+
+	/**
+	 * Lock policy for writing the packages file.
+	 */
+	public lock: ILockPolicy = {
+		timeout: LOCK_TIMEOUT,
+		stale: LOCK_STALE
+	};
 
 	/**
 	 * Packages constructor.
@@ -116,64 +181,38 @@ export class Packages {
 
 	/**
 	 * Update packages.
+	 * Optionally replaces the merged packages lists at the same time.
 	 *
 	 * @param data Encoded data.
+	 * @param merged Packages lists to merge, by name in priority order.
 	 * @returns Update report.
 	 */
-	public update(data: string) {
-		// Map out current list if any.
-		const map = new Map<string, IPackageUpdated>();
-		for (const pkg of this.packages()) {
-			const {name, file, size, sha256} = pkg;
-			map.set(name, {
-				name,
-				file,
-				size,
-				sha256
-			});
-		}
-
-		// Actually set the data.
-		this._setPackagesList(this._parseData(data));
-
-		// List out the changes of significance.
-		const updated: IPackageUpdated[] = [];
-		const added: IPackageUpdated[] = [];
-		const removed: IPackageUpdated[] = [];
-		for (const pkg of this.packages()) {
-			const {name, file, size, sha256} = pkg;
-			const obj: IPackageUpdated = {
-				name,
-				file,
-				size,
-				sha256
-			};
-
-			const before = map.get(name) || null;
-			map.delete(name);
-
-			if (!before) {
-				added.push(obj);
-				continue;
-			}
+	public update(
+		data: string,
+		merged: ReadonlyMap<string, Packages> | null = null
+	) {
+		const packagesList = this._parseData(data);
+		return this._updateReport(() => {
+			this._setPackagesList(packagesList, merged ?? this._merged);
+		});
+	}
 
-			if (
-				before.sha256 !== sha256 ||
-				before.size !== size ||
-				before.file !== file
-			) {
-				updated.push(obj);
+	/**
+	 * Merge other packages lists after this list, by name in priority order.
+	 * Packages already listed by name are skipped if the SHA256 hash matches.
+	 * Replaces any previously merged packages lists.
+	 *
+	 * @param merged Packages lists to merge, by name in priority order.
+	 * @returns Update report.
+	 */
+	public merge(merged: ReadonlyMap<string, Packages>) {
+		return this._updateReport(() => {
+			if (this._packagesList) {
+				this._setPackagesList(this._packagesList, merged);
+			} else {
+				this._merged = new Map(merged);
 			}
-		}
-		for (const [, obj] of map) {
-			removed.push(obj);
-		}
-
-		return {
-			updated,
-			added,
-			removed
-		};
+		});
 	}
 
 	/**
@@ -181,7 +220,7 @@ export class Packages {
 	 */
 	public assertLoaded() {
 		if (!this.loaded) {
-			throw new Error('Packages list not loaded');
+			throw new PackagesNotLoadedError();
 		}
 	}
 
@@ -213,16 +252,25 @@ export class Packages {
 	 */
 	public async write() {
 		if (!this._packagesList) {
-			throw new Error('Cannot write unloaded list');
+			throw new PackagesNotLoadedError('Cannot write unloaded list');
 		}
 		const out = this.path;
 		const prt = `${out}${TEMP_EXT}`;
-		await mkdir(dirname(prt), {recursive: true});
-		await rm(prt, {force: true});
-		await writeFile(prt, JSON.stringify(this._packagesList, null, '\t'), {
-			flag: 'wx'
-		});
-		await rename(prt, out);
+		const lock = new Lock(`${out}${LOCK_EXT}`, this.lock);
+		await lock.acquire();
+		try {
+			await rm(prt, {force: true});
+			await writeFile(
+				prt,
+				JSON.stringify(this._packagesList, null, '\t'),
+				{
+					flag: 'wx'
+				}
+			);
+			await rename(prt, out);
+		} finally {
+			await lock.release();
+		}
 	}
 
 	/**
@@ -275,7 +323,10 @@ export class Packages {
 	 */
 	public assertHas(pkg: Package) {
 		if (!this.has(pkg)) {
-			throw new Error('Package not in collection');
+			throw new PackageNotInCollectionError(
+				'Package not in collection',
+				pkg.name
+			);
 		}
 	}
 
@@ -329,6 +380,80 @@ export class Packages {
 		return this._packagesByUnique.get(unique) || null;
 	}
 
+	/**
+	 * Validate parsed package info, and any child packages.
+	 *
+	 * @param info Parsed package.
+	 * @param path Path of the package, for errors.
+	 * @param child Package is a child package.
+	 */
+	public validatePackage(info: unknown, path: string, child: boolean) {
+		this._castPackage(info, path, child);
+	}
+
+	/**
+	 * Change the packages and report the changes.
+	 *
+	 * @param change Function that changes the packages.
+	 * @returns Update report.
+	 */
+	protected _updateReport(change: () => void) {
+		// Map out current list if any.
+		const map = new Map<string, Package>();
+		for (const pkg of this.packages()) {
+			map.set(pkg.name, pkg);
+		}
+
+		// Actually change the packages.
+		change();
+
+		// List out the changes of significance.
+		const updated: IPackageUpdatedDiff[] = [];
+		const added: IPackageUpdated[] = [];
+		const removed: IPackageUpdated[] = [];
+		for (const pkg of this.packages()) {
+			const {name, file, size, sha256} = pkg;
+			const obj: IPackageUpdated = {
+				name,
+				file,
+				size,
+				sha256
+			};
+
+			const before = map.get(name) || null;
+			map.delete(name);
+
+			if (!before) {
+				added.push(obj);
+				continue;
+			}
+
+			// Source only changes are not significant, mirrors move files.
+			const changes = this._packageChanges(before, pkg);
+			if (changes.some(c => c.field !== 'source')) {
+				updated.push({
+					...obj,
+					changes,
+					moved: changes.some(c => c.field === 'parent')
+				});
+			}
+		}
+		for (const [, {name, file, size, sha256}] of map) {
+			removed.push({
+				name,
+				file,
+				size,
+				sha256
+			});
+		}
+
+		return {
+			updated,
+			added,
+			removed
+		};
+	}
+
 	/**
 	 * Create a package instance.
 	 *
@@ -339,16 +464,61 @@ export class Packages {
 		return new Package(info);
 	}
 
+	/**
+	 * List the changed fields between two versions of a package.
+	 *
+	 * @param before Package before.
+	 * @param after Package after.
+	 * @returns List of changes.
+	 */
+	protected _packageChanges(before: Package, after: Package) {
+		const changes: IPackageUpdatedChange[] = [];
+		for (const field of [
+			'file',
+			'size',
+			'sha256',
+			'sha1',
+			'md5',
+			'source',
+			'zipped'
+		] as const) {
+			if (before[field] !== after[field]) {
+				changes.push({
+					field,
+					before: before[field],
+					after: after[field]
+				});
+			}
+		}
+		const parentBefore = before.parent ? before.parent.name : null;
+		const parentAfter = after.parent ? after.parent.name : null;
+		if (parentBefore !== parentAfter) {
+			changes.push({
+				field: 'parent',
+				before: parentBefore,
+				after: parentAfter
+			});
+		}
+		return changes;
+	}
+
 	/**
 	 * Set the packages list.
 	 *
 	 * @param packagesList Parsed list.
+	 * @param merged Packages lists to merge, by name in priority order.
 	 */
-	protected _setPackagesList(packagesList: Readonly<IPackagesList>) {
+	protected _setPackagesList(
+		packagesList: Readonly<IPackagesList>,
+		merged: ReadonlyMap<string, Packages> = this._merged
+	) {
 		this._validateFormat(packagesList.format);
 
 		const parsed = this._parsePackages(packagesList.packages);
-		const packages = this._listPackages(parsed);
+		const packages = this._mergePackages(
+			this._listPackages(parsed),
+			merged
+		);
 
 		// Map out the names and hashes.
 		const byName = this._packagesMapName(packages);
@@ -359,6 +529,7 @@ export class Packages {
 
 		// If all parsed successfully, set properties.
 		this._packagesList = packagesList;
+		this._merged = new Map(merged);
 		this._packages = packages;
 		this._packagesByName = byName;
 		this._packagesBySha256 = bySha256;
@@ -374,19 +545,30 @@ export class Packages {
 	 */
 	protected _validateFormat(format: string) {
 		const Constructor = this.constructor as typeof Packages;
-		const version = Constructor.FORMAT.split('.').map(Number);
 		const parts = format.split('.').map(Number);
 
 		if (parts.length !== 2) {
-			throw new Error(`Invalid format version value: ${format}`);
+			throw new FormatVersionError(
+				`Invalid format version value: ${format}`,
+				format
+			);
 		}
 
-		if (parts[0] !== version[0]) {
-			throw new Error(`Invalid format version major: ${format}`);
+		const version = Constructor.FORMATS.map(s =>
+			s.split('.').map(Number)
+		).find(v => v[0] === parts[0]);
+		if (!version) {
+			throw new FormatVersionError(
+				`Invalid format version major: ${format}`,
+				format
+			);
 		}
 
 		if (parts[1] < version[1]) {
-			throw new Error(`Invalid format version minor: ${format}`);
+			throw new FormatVersionError(
+				`Invalid format version minor: ${format}`,
+				format
+			);
 		}
 	}
 
@@ -426,6 +608,43 @@ export class Packages {
 		return r;
 	}
 
+	/**
+	 * Add packages from merged lists to a set of packages.
+	 * Throws if a merged list has a listed name with a different hash.
+	 *
+	 * @param packages A set of all packages.
+	 * @param merged Packages lists to merge, by name in priority order.
+	 * @returns The set of all packages, including merged packages.
+	 */
+	protected _mergePackages(
+		packages: Set<Package>,
+		merged: ReadonlyMap<string, Packages>
+	) {
+		const names = new Map<string, Package>();
+		for (const entry of packages) {
+			names.set(entry.name, entry);
+		}
+		for (const [registry, list] of merged) {
+			for (const entry of list.packages()) {
+				const {name, sha256} = entry;
+				const listed = names.get(name);
+				if (!listed) {
+					names.set(name, entry);
+					packages.add(entry);
+				} else if (listed.sha256 !== sha256) {
+					throw new RegistryConflictError(
+						`Registry package conflict: ${registry}: ${name}`,
+						registry,
+						name,
+						listed.sha256,
+						sha256
+					);
+				}
+			}
+		}
+		return packages;
+	}
+
 	/**
 	 * Map out package list by name.
 	 * Throws on any duplicates.
@@ -439,7 +658,11 @@ export class Packages {
 		for (const entry of packages as Set<Package>) {
 			const {name} = entry;
 			if (r.has(name)) {
-				throw new Error(`Duplicate package name: ${name}`);
+				throw new PackageDuplicateError(
+					`Duplicate package name: ${name}`,
+					'name',
+					name
+				);
 			}
 			r.set(name, entry);
 		}
@@ -460,7 +683,11 @@ export class Packages {
 		for (const entry of packages as Set<Package>) {
 			const {sha256} = entry;
 			if (r.has(sha256)) {
-				throw new Error(`Duplicate package sha256: ${sha256}`);
+				throw new PackageDuplicateError(
+					`Duplicate package sha256: ${sha256}`,
+					'sha256',
+					sha256
+				);
 			}
 			r.set(sha256, entry);
 		}
@@ -481,7 +708,11 @@ export class Packages {
 		for (const entry of packages as Set<Package>) {
 			const {sha1} = entry;
 			if (r.has(sha1)) {
-				throw new Error(`Duplicate package sha1: ${sha1}`);
+				throw new PackageDuplicateError(
+					`Duplicate package sha1: ${sha1}`,
+					'sha1',
+					sha1
+				);
 			}
 			r.set(sha1, entry);
 		}
@@ -502,7 +733,11 @@ export class Packages {
 		for (const entry of packages as Set<Package>) {
 			const {md5} = entry;
 			if (r.has(md5)) {
-				throw new Error(`Duplicate package md5: ${md5}`);
+				throw new PackageDuplicateError(
+					`Duplicate package md5: ${md5}`,
+					'md5',
+					md5
+				);
 			}
 			r.set(md5, entry);
 		}
@@ -528,7 +763,11 @@ export class Packages {
 				entry.md5
 			]) {
 				if (r.has(unique)) {
-					throw new Error(`Duplicate package unique: ${unique}`);
+					throw new PackageDuplicateError(
+						`Duplicate package unique: ${unique}`,
+						'unique',
+						unique
+					);
 				}
 				r.set(unique, entry);
 			}
@@ -549,6 +788,7 @@ export class Packages {
 
 	/**
 	 * Cast the parsed data.
+	 * Validates the whole list, errors include the path of the invalid value.
 	 *
 	 * @param packages Parsed data.
 	 * @returns Cast data.
@@ -557,12 +797,170 @@ export class Packages {
 		if (
 			!packages ||
 			typeof packages !== 'object' ||
-			typeof (packages as {format: unknown}).format !== 'string' ||
-			!Array.isArray((packages as {packages: unknown}).packages)
+			Array.isArray(packages)
 		) {
-			throw new Error('Failed to validate packages');
+			throw this._castError('', 'Expected object');
+		}
+		const {format, packages: list} = packages as {[key: string]: unknown};
+		if (typeof format !== 'string') {
+			throw this._castError('format', 'Expected string');
 		}
+		this._castPackages(list, 'packages', false);
 
 		return packages as IPackagesList;
 	}
+
+	/**
+	 * Validate a parsed packages list.
+	 *
+	 * @param list Parsed list.
+	 * @param path Path of the list.
+	 * @param child Packages are child packages.
+	 */
+	protected _castPackages(list: unknown, path: string, child: boolean) {
+		if (!Array.isArray(list)) {
+			throw this._castError(path, 'Expected array');
+		}
+		for (let i = 0; i < list.length; i++) {
+			this._castPackage(list[i], `${path}[${i}]`, child);
+		}
+	}
+
+	/**
+	 * Validate a parsed package, and any child packages.
+	 *
+	 * @param info Parsed package.
+	 * @param path Path of the package.
+	 * @param child Package is a child package.
+	 */
+	protected _castPackage(info: unknown, path: string, child: boolean) {
+		if (!info || typeof info !== 'object' || Array.isArray(info)) {
+			throw this._castError(path, 'Expected object');
+		}
+		const o = info as {[key: string]: unknown};
+
+		for (const key of ['name', 'file', 'source']) {
+			const v = o[key];
+			if (typeof v !== 'string' || !v) {
+				throw this._castError(
+					`${path}.${key}`,
+					'Expected non-empty string'
+				);
+			}
+		}
+
+		const {size} = o;
+		if (
+			typeof size !== 'number' ||
+			!Number.isSafeInteger(size) ||
+			size < 0
+		) {
+			throw this._castError(
+				`${path}.size`,
+				'Expected non-negative integer'
+			);
+		}
+
+		for (const [key, length] of [
+			['sha256', 64],
+			['sha1', 40],
+			['md5', 32]
+		] as const) {
+			const v = o[key];
+			if (
+				typeof v !== 'string' ||
+				v.length !== length ||
+				!/^[\da-f]+$/i.test(v)
+			) {
+				throw this._castError(
+					`${path}.${key}`,
+					`Expected ${length} character hex string`
+				);
+			}
+		}
+
+		// Only child packages are zipped.
+		if (child) {
+			const {zipped} = o;
+			if (typeof zipped !== 'string' || !/^\d+-\d+-\d+$/.test(zipped)) {
+				throw this._castError(
+					`${path}.zipped`,
+					'Expected method-start-size string'
+				);
+			}
+		} else if ('zipped' in o) {
+			throw this._castError(
+				`${path}.zipped`,
+				'Unexpected in root package'
+			);
+		}
+
+		// Optional metadata.
+		for (const key of [
+			'title',
+			'version',
+			'platform',
+			'arch',
+			'released',
+			'license'
+		]) {
+			if (key in o && typeof o[key] !== 'string') {
+				throw this._castError(`${path}.${key}`, 'Expected string');
+			}
+		}
+		if ('released' in o && Number.isNaN(Date.parse(o.released as string))) {
+			throw this._castError(`${path}.released`, 'Expected date string');
+		}
+		if ('tags' in o) {
+			const {tags} = o;
+			if (!Array.isArray(tags)) {
+				throw this._castError(`${path}.tags`, 'Expected array');
+			}
+			for (let i = 0; i < tags.length; i++) {
+				if (typeof tags[i] !== 'string') {
+					throw this._castError(
+						`${path}.tags[${i}]`,
+						'Expected string'
+					);
+				}
+			}
+		}
+
+		if ('requires' in o) {
+			const {requires} = o;
+			if (!Array.isArray(requires)) {
+				throw this._castError(`${path}.requires`, 'Expected array');
+			}
+			for (let i = 0; i < requires.length; i++) {
+				const v = requires[i] as unknown;
+				if (typeof v !== 'string' || !v) {
+					throw this._castError(
+						`${path}.requires[${i}]`,
+						'Expected non-empty string'
+					);
+				}
+			}
+		}
+
+		if ('packages' in o) {
+			this._castPackages(o.packages, `${path}.packages`, true);
+		}
+	}
+
+	/**
+	 * Create a validation error.
+	 *
+	 * @param path Path of the invalid value.
+	 * @param message Error message.
+	 * @returns Error object.
+	 */
+	protected _castError(path: string, message: string) {
+		return new PackagesValidationError(
+			path
+				? `Failed to validate packages: ${path}: ${message}`
+				: `Failed to validate packages: ${message}`,
+			path,
+			message
+		);
+	}
 }
@@ -7,7 +7,7 @@ import {pipeline} from 'node:stream/promises';
 import {join as pathJoin} from 'node:path';
 import {rm, mkdir, lstat} from 'node:fs/promises';
 
-import {EmptyStream, SliceStream, WriterStream} from './stream';
+import {EmptyStream, SliceStream, TimeoutStream, WriterStream} from './stream';
 
 const withTemp = (i => async (func: (dir: string) => unknown) => {
 	const dir = `./spec/tmp/stream/${i++}`;
@@ -201,6 +201,37 @@ void describe('stream', () => {
 		});
 	});
 
+	void describe('TimeoutStream', () => {
+		void it('data', async () => {
+			const reader = new Reader();
+			const transform = new TimeoutStream(1000);
+			let size = 0;
+			transform.on('data', (data: Buffer) => {
+				size += data.length;
+			});
+			await pipeline(reader, transform);
+			strictEqual(size, 5 * MB);
+		});
+
+		void it('stalled', async () => {
+			const reader = new Readable({
+				read() {
+					// Never push more.
+				}
+			});
+			reader.push(Buffer.alloc(10));
+			const transform = new TimeoutStream(10, () => new Error('Stalled'));
+			transform.resume();
+			let error: Error | null = null;
+			try {
+				await pipeline(reader, transform);
+			} catch (err) {
+				error = err as Error;
+			}
+			strictEqual(error?.message, 'Stalled');
+		});
+	});
+
 	void describe('EmptyStream', () => {
 		void it('no data', async () => {
 			let datas = 0;
@@ -187,6 +187,99 @@ export class SliceStream extends Transform {
 	}
 }
 
+/**
+ * Passes data through, erroring if no data is received for a period of time.
+ */
+export class TimeoutStream extends Transform {
+	/**
+	 * Timeout in milliseconds.
+	 */
+	public readonly timeout: number;
+
+	/**
+	 * Create the error to destroy the stream with.
+	 */
+	protected readonly _error: () => Error;
+
+	/**
+	 * Timeout timer.
+	 */
+	protected _timer: ReturnType<typeof setTimeout> | null = null;
+
+	/**
+	 * TimeoutStream constructor.
+	 *
+	 * @param timeout Timeout in milliseconds.
+	 * @param error Create the error to destroy the stream with.
+	 */
+	constructor(
+		timeout: number,
+		error: () => Error = () => new Error(`Timeout: ${timeout}ms`)
+	) {
+		super();
+
+		this.timeout = timeout;
+		this._error = error;
+		this._timerReset();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	// eslint-disable-next-line @typescript-eslint/naming-convention
+	public _transform(
+		chunk: unknown,
+		encoding: BufferEncoding,
+		callback: TransformCallback
+	): void {
+		this._timerReset();
+		callback(null, chunk);
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	// eslint-disable-next-line @typescript-eslint/naming-convention
+	public _flush(callback: TransformCallback): void {
+		this._timerClear();
+		callback();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	// eslint-disable-next-line @typescript-eslint/naming-convention
+	public _destroy(
+		error: Error | null,
+		callback: (error?: Error | null) => void
+	): void {
+		this._timerClear();
+		callback(error);
+	}
+
+	/**
+	 * Restart the timer.
+	 */
+	protected _timerReset() {
+		this._timerClear();
+		this._timer = setTimeout(() => {
+			this._timer = null;
+			this.destroy(this._error());
+		}, this.timeout);
+	}
+
+	/**
+	 * Clear the timer.
+	 */
+	protected _timerClear() {
+		const {_timer} = this;
+		if (_timer) {
+			clearTimeout(_timer);
+			this._timer = null;
+		}
+	}
+}
+
 /**
  * An empty read stream.
  */
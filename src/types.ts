@@ -9,6 +9,11 @@ export interface IFetchRequestInit {
 	 * Request headers.
 	 */
 	headers?: {[header: string]: string};
+
+	/**
+	 * Abort signal.
+	 */
+	signal?: AbortSignal | null;
 }
 
 export interface IFetchResponseHeaders {